@@ -0,0 +1,194 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ROLES, type Role } from '@/lib/auth';
+import type { UserInfo } from '@/lib/credentials';
+import type { StatusDefinition, UncoveredStatus } from '@/lib/funnelConfig';
+
+interface FunnelConfigReport {
+  statuses: StatusDefinition[];
+  errors: string[];
+  uncovered: UncoveredStatus[];
+}
+
+// Admin only: accounts and roles, and a health check of the funnel config
+export default function AdminPage() {
+  const [users, setUsers] = useState<UserInfo[]>([]);
+  const [config, setConfig] = useState<FunnelConfigReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<{ username: string; role: Role; password: string }>({ username: '', role: 'viewer', password: '' });
+
+  const loadUsers = useCallback(async () => {
+    const res = await fetch('/api/auth/users');
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error);
+    setUsers(data.users);
+  }, []);
+
+  useEffect(() => {
+    loadUsers().catch(err => setError(err instanceof Error ? err.message : 'Failed to load users'));
+    fetch('/api/funnel-config')
+      .then(res => (res.ok ? res.json() : null))
+      .then(setConfig)
+      .catch(() => setConfig(null));
+  }, [loadUsers]);
+
+  const request = async (url: string, init: RequestInit) => {
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) throw new Error([data.error, ...(data.details || [])].join(': '));
+      await loadUsers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    }
+  };
+
+  const saveUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await request('/api/auth/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // An empty password keeps an existing user's password
+      body: JSON.stringify({ username: form.username, role: form.role, password: form.password || undefined }),
+    });
+    if (saved) setForm({ username: '', role: 'viewer', password: '' });
+  };
+
+  const changeRole = (user: UserInfo, role: Role) => request('/api/auth/users', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: user.username, role }),
+  });
+
+  const removeUser = (user: UserInfo) => {
+    if (!window.confirm(`Remove ${user.username}?`)) return;
+    request(`/api/auth/users/${encodeURIComponent(user.username)}`, { method: 'DELETE' });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Admin</h1>
+          <Link href="/" className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700">
+            Back to Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 text-sm flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)} className="ml-4 text-red-600 hover:text-red-900">Dismiss</button>
+          </div>
+        )}
+
+        <section className="bg-white rounded-lg shadow">
+          <h2 className="px-4 py-3 border-b font-semibold">Users</h2>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b">
+              <tr>
+                <th className="px-4 py-2 text-left font-semibold">Username</th>
+                <th className="px-4 py-2 text-left font-semibold">Role</th>
+                <th className="px-4 py-2 text-left font-semibold">Updated</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {users.map(user => (
+                <tr key={user.username}>
+                  <td className="px-4 py-2">{user.username}</td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={user.role}
+                      onChange={e => changeRole(user, e.target.value as Role)}
+                      className="px-2 py-1 border rounded"
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{new Date(user.updatedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button onClick={() => removeUser(user)} className="text-red-600 hover:text-red-900">Remove</button>
+                  </td>
+                </tr>
+              ))}
+              {users.length === 0 && (
+                <tr><td colSpan={4} className="px-4 py-3 text-gray-500">No users yet. Add an admin before unsetting AUTH_ADMIN_PASSWORD.</td></tr>
+              )}
+            </tbody>
+          </table>
+          <form onSubmit={saveUser} className="px-4 py-3 border-t flex gap-3 text-sm">
+            <input
+              placeholder="Username"
+              value={form.username}
+              onChange={e => setForm({ ...form, username: e.target.value })}
+              className="flex-1 px-3 py-1.5 border rounded-lg"
+            />
+            <select
+              value={form.role}
+              onChange={e => setForm({ ...form, role: e.target.value as Role })}
+              className="px-3 py-1.5 border rounded-lg"
+            >
+              {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+            </select>
+            <input
+              type="password"
+              placeholder="Password (min. 10)"
+              autoComplete="new-password"
+              value={form.password}
+              onChange={e => setForm({ ...form, password: e.target.value })}
+              className="flex-1 px-3 py-1.5 border rounded-lg"
+            />
+            <button type="submit" disabled={!form.username} className="px-3 py-1.5 border rounded-lg hover:bg-gray-50 disabled:opacity-40">
+              Add or update
+            </button>
+          </form>
+        </section>
+
+        <section className="bg-white rounded-lg shadow">
+          <h2 className="px-4 py-3 border-b font-semibold">Funnel Config</h2>
+          {config ? (
+            <div className="px-4 py-3 text-sm space-y-3">
+              <p className="text-gray-600">
+                Statuses, transitions and chart grouping are defined in <code>lib/funnelConfig.ts</code>.
+              </p>
+              {config.errors.length === 0 && config.uncovered.length === 0 && (
+                <p className="text-green-700">The config is consistent and covers every status in Airtable.</p>
+              )}
+              {config.errors.map(message => <p key={message} className="text-red-700">{message}</p>)}
+              {config.uncovered.map(u => (
+                <p key={u.status} className="text-red-700">
+                  &ldquo;{u.status}&rdquo; is used in Airtable ({u.people} people, {u.events} events) but not in the config
+                </p>
+              ))}
+              <table className="w-full">
+                <thead className="border-b">
+                  <tr>
+                    <th className="py-2 text-left font-semibold">Status</th>
+                    <th className="py-2 text-left font-semibold">Category</th>
+                    <th className="py-2 text-left font-semibold">Can move to</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {config.statuses.map(definition => (
+                    <tr key={definition.status}>
+                      <td className="py-2">{definition.label}</td>
+                      <td className="py-2 text-gray-600">{definition.category}</td>
+                      <td className="py-2 text-gray-600">{definition.transitions.join(', ') || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="px-4 py-3 text-sm text-gray-500">Loading...</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse } from '@/lib/errors';
+import { applyPipelineFilter } from '@/lib/filters';
+import { getNotifier } from '@/lib/notifier';
+import { buildSlaDigest, evaluateSla, getSlaRules } from '@/lib/sla';
+import { NextResponse } from 'next/server';
+
+// Build the overdue digest and send it through the configured notifier.
+// Meant to be called by a daily cron job, which signs in with
+// "Authorization: Bearer $ALERTS_CRON_SECRET" (see ACCESS_RULES).
+export async function POST(request: Request) {
+  try {
+    const dataSource = getDataSource();
+    const [allPeople, allEvents] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const { people, events } = applyPipelineFilter(allPeople, allEvents, {});
+    const now = new Date();
+    const alerts = evaluateSla(people, events, getSlaRules(), now);
+    const digest = buildSlaDigest(alerts, now, new URL(request.url).origin);
+
+    const notifier = getNotifier();
+    await notifier.send(digest);
+    return NextResponse.json({ notifier: notifier.name, subject: digest.subject, alerts: alerts.length });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { getRequestUser } from '@/lib/auth';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse } from '@/lib/errors';
+import { applyPipelineFilter } from '@/lib/filters';
+import { canSeePii, redactAlert } from '@/lib/redact';
+import { buildSlaDigest, evaluateSla, getSlaRules } from '@/lib/sla';
+import { NextResponse } from 'next/server';
+
+// GET /api/alerts                 -> overdue people as JSON
+// GET /api/alerts?format=markdown -> the same as a markdown digest
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const dataSource = getDataSource();
+    const [allPeople, allEvents] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const { people, events } = applyPipelineFilter(allPeople, allEvents, {});
+    const rules = getSlaRules();
+    const now = new Date();
+    const overdue = evaluateSla(people, events, rules, now);
+    const alerts = canSeePii(getRequestUser(request)) ? overdue : overdue.map(redactAlert);
+
+    if (url.searchParams.get('format') === 'markdown') {
+      const { markdown } = buildSlaDigest(alerts, now, url.origin);
+      return new NextResponse(markdown, { headers: { 'Content-Type': 'text/markdown; charset=utf-8' } });
+    }
+
+    return NextResponse.json({ generatedAt: now.toISOString(), rules, alerts });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
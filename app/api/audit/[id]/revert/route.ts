@@ -0,0 +1,21 @@
+import { getRequestActor } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { revertAuditEntry, splitChangeContext } from '@/lib/personUpdates';
+import { NextResponse } from 'next/server';
+
+// POST /api/audit/:id/revert -> write back the old values of every field in
+// the entry's update. Body may carry an optional `note` (and `actor` when
+// auth is disabled). Responds 409 when any of them has changed since.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const { context } = splitChangeContext(body, getRequestActor(request));
+    return NextResponse.json(await revertAuditEntry(id, context));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { listAuditEntries, parseAuditQuery } from '@/lib/audit';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+
+// GET /api/audit -> audit log entries, newest first. Filter with
+// ?recordId=, ?actor=, ?field=, ?from= and ?to= (dates), and ?limit=.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { query, errors } = parseAuditQuery(searchParams);
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    return NextResponse.json({ entries: await listAuditEntries(query) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { createSessionToken, isAuthEnabled, SESSION_COOKIE, SESSION_HOURS } from '@/lib/auth';
+import { verifyCredentials } from '@/lib/credentials';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+
+// POST { username, password } -> sets the session cookie
+export async function POST(request: Request) {
+  try {
+    if (!isAuthEnabled()) {
+      throw new HttpError(400, 'Authentication is disabled (AUTH_SECRET is not set)');
+    }
+
+    const body = await request.json().catch(() => null);
+    const username = typeof body?.username === 'string' ? body.username.trim() : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+    const user = username && password ? await verifyCredentials(username, password) : null;
+    if (!user) {
+      throw new HttpError(401, 'Incorrect username or password');
+    }
+
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_HOURS * 60 * 60,
+    });
+    return response;
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
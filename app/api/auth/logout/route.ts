@@ -0,0 +1,8 @@
+import { SESSION_COOKIE } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+
+export async function POST() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,7 @@
+import { getRequestUser, isAuthEnabled } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+
+// The signed-in user, so pages can hide what their role can't do
+export async function GET(request: Request) {
+  return NextResponse.json({ authEnabled: isAuthEnabled(), user: getRequestUser(request) });
+}
@@ -0,0 +1,16 @@
+import { deleteUser } from '@/lib/credentials';
+import { errorResponse } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const { username } = await params;
+    await deleteUser(decodeURIComponent(username));
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
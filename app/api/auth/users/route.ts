@@ -0,0 +1,23 @@
+import { listUsers, saveUser } from '@/lib/credentials';
+import { errorResponse } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+
+// Admin only (see lib/auth.ts). GET lists users; POST { username, role,
+// password? } creates a user or changes their role and/or password.
+export async function GET() {
+  try {
+    return NextResponse.json({ users: await listUsers() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const user = await saveUser(body ?? {});
+    return NextResponse.json({ user });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { getRequestActor } from '@/lib/auth';
+import { applyDataQualityFix } from '@/lib/dataQuality';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+
+// POST /api/data-quality/fix { rule, recordId } -> apply the rule's fix-it
+// action to one record. 409 when the record no longer breaks the rule.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.rule !== 'string' || typeof body?.recordId !== 'string') {
+      throw new HttpError(400, 'Body must be { rule, recordId }');
+    }
+
+    await applyDataQualityFix(body.rule, body.recordId, { actor: getRequestActor(request) });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,42 @@
+import { runDataQualityChecks } from '@/lib/dataQuality';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse } from '@/lib/errors';
+import { getFieldMaps, type RecordIssue, type RecordTable } from '@/lib/records';
+import { NextResponse } from 'next/server';
+
+function summarize(issues: RecordIssue[], table: RecordTable, loaded: number) {
+  const tableIssues = issues.filter(issue => issue.table === table);
+  return {
+    loaded,
+    leftOut: new Set(tableIssues.filter(issue => issue.recordDropped).map(issue => issue.recordId)).size,
+    fieldsDropped: tableIssues.filter(issue => !issue.recordDropped).length,
+  };
+}
+
+// GET /api/data-quality -> consistency checks across People and Funnel
+// Events (lib/dataQuality.ts), with the violations of each rule. `issues`
+// lists the records that don't match the schema in lib/records.ts (left out
+// of every metric, or with a field ignored), read with `fieldMaps`.
+export async function GET() {
+  try {
+    const dataSource = getDataSource();
+    const [people, events, issues] = await Promise.all([
+      dataSource.listPeople(),
+      dataSource.listFunnelEvents(),
+      dataSource.listRecordIssues(),
+    ]);
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      fieldMaps: getFieldMaps(),
+      summary: {
+        people: summarize(issues, 'people', people.length),
+        funnelEvents: summarize(issues, 'funnelEvents', events.length),
+      },
+      rules: runDataQualityChecks({ people, events, issues }),
+      issues,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { dismissPair } from '@/lib/duplicates';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+
+// POST /api/duplicates/dismiss { ids: [a, b] } -> the two records are
+// different people; stop suggesting the pair
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const ids = body?.ids;
+    if (!Array.isArray(ids) || ids.length !== 2 || !ids.every(id => typeof id === 'string') || ids[0] === ids[1]) {
+      throw new HttpError(400, 'Body must be { ids: [a, b] } with two different record ids');
+    }
+
+    await dismissPair(ids[0], ids[1]);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { getRequestActor } from '@/lib/auth';
+import { mergePeople } from '@/lib/duplicates';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { splitChangeContext } from '@/lib/personUpdates';
+import { NextResponse } from 'next/server';
+
+// POST /api/duplicates/merge { keepId, duplicateId } -> fill the kept
+// record's blank fields from the duplicate, move the duplicate's funnel
+// events onto it and close the duplicate as "Duplicate". Responds with the
+// fill fields that were skipped as invalid, or 409 when either record was
+// already merged.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.keepId !== 'string' || typeof body?.duplicateId !== 'string') {
+      throw new HttpError(400, 'Body must be { keepId, duplicateId }');
+    }
+
+    const { context } = splitChangeContext(body, getRequestActor(request));
+    return NextResponse.json(await mergePeople(body.keepId, body.duplicateId, context));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { getDataSource } from '@/lib/dataSource';
+import { findDuplicateCandidates, listDismissedPairs } from '@/lib/duplicates';
+import { errorResponse } from '@/lib/errors';
+import { NextResponse } from 'next/server';
+
+// GET /api/duplicates -> pairs of people that look like the same applicant
+// (shared email, shared GitHub handle or a near-identical name), strongest
+// evidence first. Merged and dismissed pairs aren't listed.
+export async function GET() {
+  try {
+    const [people, dismissed] = await Promise.all([getDataSource().listPeople(), listDismissedPairs()]);
+    return NextResponse.json({ candidates: findDuplicateCandidates(people, dismissed) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { closureRows, computeClosureMatrix } from '@/lib/closures';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { buildExport, exportResponseInit, isExportFormat, type ExportSheet } from '@/lib/export';
+import { applyPipelineFilter, parsePipelineFilter } from '@/lib/filters';
+import { transformEventsToSankey, type SankeyData, type SankeyMode } from '@/lib/sankeyData';
+import type { FunnelEvent, Person } from '@/lib/records';
+import { computeVelocity } from '@/lib/velocity';
+import { NextResponse } from 'next/server';
+
+const DATASETS = ['sankey-nodes', 'sankey-links', 'closures', 'velocity'] as const;
+type Dataset = typeof DATASETS[number];
+
+// No one in the filter (or no events to replay) exports empty sheets
+function buildSankey(events: FunnelEvent[], people: Person[], mode: SankeyMode): SankeyData {
+  const empty = mode === 'journey' ? events.length === 0 : people.length === 0;
+  return empty ? { nodes: [], links: [] } : transformEventsToSankey(events, people, mode);
+}
+
+function sankeySheets(data: SankeyData): Record<'sankey-nodes' | 'sankey-links', ExportSheet> {
+  const nameOf = (ref: number | string) => (typeof ref === 'number' ? data.nodes[ref]?.name : ref);
+  return {
+    'sankey-nodes': {
+      name: 'Sankey Nodes',
+      columns: ['name', 'category', 'depth', 'inflow', 'outflow', 'entering', 'remaining'],
+      rows: data.nodes.map(node => ({
+        ...node,
+        inflow: data.links.filter(link => !link.back && nameOf(link.target) === node.name).reduce((sum, link) => sum + link.value, 0),
+        outflow: data.links.filter(link => !link.back && nameOf(link.source) === node.name).reduce((sum, link) => sum + link.value, 0),
+      })),
+    },
+    'sankey-links': {
+      name: 'Sankey Links',
+      columns: ['source', 'target', 'value', 'back'],
+      rows: data.links.map(link => ({
+        source: nameOf(link.source),
+        target: nameOf(link.target),
+        value: link.value,
+        back: link.back ?? false,
+      })),
+    },
+  };
+}
+
+// GET /api/export/metrics?format=csv|json|xlsx&dataset=closures
+// `dataset` is one of sankey-nodes, sankey-links, closures, velocity or all
+// (the default; not available as CSV). `mode` picks the Sankey view and the
+// cohort and activity filter parameters are honoured.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') ?? 'json';
+    const dataset = searchParams.get('dataset') ?? 'all';
+    const mode = (searchParams.get('mode') ?? 'snapshot') as SankeyMode;
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    if (!isExportFormat(format)) {
+      errors.push('format must be csv, json or xlsx');
+    }
+    if (dataset !== 'all' && !(DATASETS as readonly string[]).includes(dataset)) {
+      errors.push(`dataset must be one of ${DATASETS.join(', ')} or all`);
+    }
+    if (dataset === 'all' && format === 'csv') {
+      errors.push('CSV exports need a single dataset');
+    }
+    if (mode !== 'snapshot' && mode !== 'journey') {
+      errors.push('mode must be snapshot or journey');
+    }
+    if (errors.length > 0 || !isExportFormat(format)) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const [allPeople, allEvents] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const { people, events } = applyPipelineFilter(allPeople, allEvents, filter);
+
+    // Only the requested sheets are built
+    let sankey: ReturnType<typeof sankeySheets> | undefined;
+    const sankeySheet = (key: 'sankey-nodes' | 'sankey-links') => {
+      sankey ??= sankeySheets(buildSankey(events, people, mode));
+      return sankey[key];
+    };
+    const builders: Record<Dataset, () => ExportSheet> = {
+      'sankey-nodes': () => sankeySheet('sankey-nodes'),
+      'sankey-links': () => sankeySheet('sankey-links'),
+      closures: () => ({
+        name: 'Closures',
+        columns: ['actor', 'stage', 'closeClass', 'count', 'share'],
+        rows: closureRows(computeClosureMatrix(people)).map(row => ({ ...row })),
+      }),
+      velocity: () => ({
+        name: 'Velocity',
+        columns: ['label', 'from', 'to', 'count', 'median', 'p25', 'p75', 'p90'],
+        rows: computeVelocity(events, people).map(row => ({ ...row })),
+      }),
+    };
+
+    const selected = (dataset === 'all' ? DATASETS : [dataset as Dataset]).map(key => builders[key]());
+    const file = await buildExport(dataset === 'all' ? 'pipeline-metrics' : dataset, selected, format);
+    return new NextResponse(file.body, exportResponseInit(file));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
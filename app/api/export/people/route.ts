@@ -0,0 +1,40 @@
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { buildExport, exportResponseInit, isExportFormat } from '@/lib/export';
+import { filterPeople, filterPeopleTable, hasActivityFilter, parsePipelineFilter } from '@/lib/filters';
+import { NextResponse } from 'next/server';
+
+const DEFAULT_COLUMNS = ['Name', 'Email', 'Status', 'Close Class', 'Role', 'Source/Channel', 'GitHub Link', 'Created'];
+
+// GET /api/export/people?format=csv|json|xlsx&columns=Name,Email&search=&status=
+// `search` and `status` match the /table filters; cohort and activity
+// filter parameters are honoured too.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') ?? 'csv';
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    if (!isExportFormat(format)) {
+      errors.push('format must be csv, json or xlsx');
+    }
+    const columns = searchParams.get('columns')?.split(',').map(column => column.trim()).filter(Boolean) ?? DEFAULT_COLUMNS;
+    if (columns.length === 0) {
+      errors.push('columns must name at least one field');
+    }
+    if (errors.length > 0 || !isExportFormat(format)) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const events = hasActivityFilter(filter) ? await dataSource.listFunnelEvents() : undefined;
+    const people = filterPeopleTable(filterPeople(await dataSource.listPeople(), filter, events), {
+      search: searchParams.get('search') ?? '',
+      status: searchParams.get('status') ?? 'All',
+    });
+
+    const file = await buildExport('people', [{ name: 'People', columns, rows: people.map(person => ({ ...person })) }], format);
+    return new NextResponse(file.body, exportResponseInit(file));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse } from '@/lib/errors';
+import { FUNNEL_STATUSES, findUncoveredStatuses, SANKEY_NODES, TONES, validateFunnelConfig } from '@/lib/funnelConfig';
+import { NextResponse } from 'next/server';
+
+// GET /api/funnel-config -> the funnel definition plus anything that doesn't
+// line up: config errors and Airtable statuses the config doesn't cover
+export async function GET() {
+  try {
+    const dataSource = getDataSource();
+    const [people, events] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+
+    return NextResponse.json({
+      statuses: FUNNEL_STATUSES,
+      sankeyNodes: SANKEY_NODES,
+      tones: TONES,
+      errors: validateFunnelConfig(),
+      uncovered: findUncoveredStatuses(people, events),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,13 +1,35 @@
-import { getAllFunnelEvents } from '@/lib/airtable';
+import { getRequestUser } from '@/lib/auth';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { filterEvents, hasCohortFilter, parsePipelineFilter } from '@/lib/filters';
+import type { Person } from '@/lib/records';
+import { eventsFor } from '@/lib/redact';
+import { getPeopleAsOf } from '@/lib/snapshots';
+import { eventsUpTo, parseAsOf } from '@/lib/timeTravel';
 import { NextResponse } from 'next/server';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const events = await getAllFunnelEvents();
-    return NextResponse.json(events);
+    const { searchParams } = new URL(request.url);
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    const asOf = parseAsOf(searchParams.get('asOf'));
+    if (searchParams.get('asOf') && !asOf) {
+      errors.push('asOf must be a date');
+    }
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    let events = await dataSource.listFunnelEvents();
+    if (asOf) events = eventsUpTo(events, asOf);
+    // Cohorts are defined by people's Created dates, so only fetch them when needed
+    let people: Person[] | undefined;
+    if (hasCohortFilter(filter)) {
+      people = asOf ? await getPeopleAsOf(asOf) : await dataSource.listPeople();
+    }
+    return NextResponse.json(eventsFor(getRequestUser(request), filterEvents(events, filter, people)));
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(error);
   }
 }
-
@@ -0,0 +1,29 @@
+import { computeChannelStats, getChannelRules } from '@/lib/channels';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { applyPipelineFilter, parsePipelineFilter } from '@/lib/filters';
+import { NextResponse } from 'next/server';
+
+// GET /api/metrics/channels -> applications, qualification and onboarding
+// rates, close reasons and median time to onboard per normalized
+// Source/Channel. Cohort and activity filter parameters are honoured.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const [allPeople, allEvents] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const { people, events } = applyPipelineFilter(allPeople, allEvents, filter);
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      channels: computeChannelStats(people, events, getChannelRules()),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { computeClosureMatrix } from '@/lib/closures';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { filterPeople, hasActivityFilter, parsePipelineFilter } from '@/lib/filters';
+import { NextResponse } from 'next/server';
+
+// GET /api/metrics/closures -> closed people by who closed × at which stage,
+// plus every Close Class value that couldn't be parsed. Cohort and activity
+// filter parameters are honoured.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const events = hasActivityFilter(filter) ? await dataSource.listFunnelEvents() : undefined;
+    const people = filterPeople(await dataSource.listPeople(), filter, events);
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      ...computeClosureMatrix(people),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
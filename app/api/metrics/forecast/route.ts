@@ -0,0 +1,33 @@
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { applyPipelineFilter } from '@/lib/filters';
+import { computeForecast, getForecastConfig, parseForecastConfig } from '@/lib/forecast';
+import { NextResponse } from 'next/server';
+
+// GET /api/metrics/forecast -> progress toward the onboarding target, with
+// throughput- and pipeline-based completion estimates and burn-up series.
+// ?target=, ?deadline= and ?windowDays= override the configured values.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { config, errors } = parseForecastConfig(
+      {
+        target: searchParams.get('target'),
+        deadline: searchParams.get('deadline'),
+        windowDays: searchParams.get('windowDays'),
+      },
+      getForecastConfig()
+    );
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const [allPeople, allEvents] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const { people, events } = applyPipelineFilter(allPeople, allEvents, {});
+
+    return NextResponse.json(computeForecast(people, events, config));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { applyPipelineFilter, parsePipelineFilter } from '@/lib/filters';
+import { computeTimeSeries, parseTimeSeriesQuery } from '@/lib/timeSeries';
+import { NextResponse } from 'next/server';
+
+// GET /api/metrics/timeseries?interval=week|month&periods=12 -> applications,
+// qualifications, calls completed, onboardings and closures per period, the
+// last period being the one in progress. Cohort and activity filter
+// parameters are honoured.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { query, errors: queryErrors } = parseTimeSeriesQuery(searchParams);
+    const { filter, errors: filterErrors } = parsePipelineFilter(searchParams);
+    const errors = [...queryErrors, ...filterErrors];
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const [allPeople, allEvents] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const { people, events } = applyPipelineFilter(allPeople, allEvents, filter);
+
+    return NextResponse.json(computeTimeSeries(people, events, query));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { applyPipelineFilter, parsePipelineFilter } from '@/lib/filters';
+import { buildTimelines, computeStageDuration, computeVelocity } from '@/lib/velocity';
+import { NextResponse } from 'next/server';
+
+// GET /api/metrics/velocity            -> dashboard segments
+// GET /api/metrics/velocity?from=X&to=Y -> a single custom status pair
+// Cohort and activity filter parameters are honoured in both forms.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    if ((from && !to) || (!from && to)) {
+      throw new HttpError(400, 'Both "from" and "to" are required');
+    }
+
+    const dataSource = getDataSource();
+    const [allPeople, allEvents] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const { people, events } = applyPipelineFilter(allPeople, allEvents, filter);
+
+    if (from && to) {
+      const timelines = buildTimelines(events, people);
+      return NextResponse.json({
+        generatedAt: new Date().toISOString(),
+        unit: 'days',
+        segments: [computeStageDuration(timelines, from, to)],
+      });
+    }
+
+    return NextResponse.json({
+      generatedAt: new Date().toISOString(),
+      unit: 'days',
+      segments: computeVelocity(events, people),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
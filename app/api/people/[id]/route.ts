@@ -1,25 +1,70 @@
-import { updatePersonField } from '@/lib/airtable';
+import { getRequestActor, getRequestUser } from '@/lib/auth';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { applyPipelineFilter } from '@/lib/filters';
+import { withIdempotencyKey } from '@/lib/idempotency';
+import { applyPersonUpdate, splitChangeContext } from '@/lib/personUpdates';
+import { canSeePii, redactFunnelEvent, redactPerson } from '@/lib/redact';
+import { buildTimelines, computeMedianStay, computeStageStays } from '@/lib/velocity';
 import { NextResponse } from 'next/server';
 
-export async function PATCH(
+// A person with their funnel events, time spent in each stage and the
+// pipeline-wide median stay per status for comparison
+export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const body = await request.json();
-    
-    // Update all fields in the body
-    const updates = Object.entries(body);
-    let result = null;
-    
-    for (const [fieldName, value] of updates) {
-      result = await updatePersonField(id, fieldName, value as string | number | boolean);
+    const dataSource = getDataSource();
+    const [person, allPeople, allEvents] = await Promise.all([
+      dataSource.getPerson(id),
+      dataSource.listPeople(),
+      dataSource.listFunnelEvents(),
+    ]);
+    if (!person) {
+      throw new HttpError(404, `Person ${id} not found`);
     }
-    
+
+    const events = allEvents
+      .filter(event => event.Lead?.includes(id))
+      .sort((a, b) => new Date(a['Changed At']).getTime() - new Date(b['Changed At']).getTime());
+
+    // People without events have been in their status since they applied
+    const timeline = buildTimelines(events, [person]).get(id)
+      ?? (typeof person.Created === 'string' ? [{ status: person.Status, enteredAt: new Date(person.Created) }] : []);
+
+    // Merged duplicates stay out of the comparison, as in every metric
+    const pipeline = applyPipelineFilter(allPeople, allEvents, {});
+    const showPii = canSeePii(getRequestUser(request));
+    return NextResponse.json({
+      person: showPii ? person : redactPerson(person),
+      events: showPii ? events : events.map(redactFunnelEvent),
+      stays: computeStageStays(timeline),
+      medianStayDays: computeMedianStay(buildTimelines(pipeline.events, pipeline.people)),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Body: editable fields, plus optional `actor` and `note` for the funnel event.
+// Send an Idempotency-Key header to make retries safe.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const { fields, context } = splitChangeContext(body, getRequestActor(request));
+
+    const key = request.headers.get('Idempotency-Key');
+    const result = await withIdempotencyKey(key && `people:${id}:${key}`, () =>
+      applyPersonUpdate(id, fields, context)
+    );
     return NextResponse.json(result);
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(error);
   }
 }
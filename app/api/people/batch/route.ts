@@ -0,0 +1,57 @@
+import { getRequestActor } from '@/lib/auth';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { withIdempotencyKey } from '@/lib/idempotency';
+import { applyPersonUpdate, splitChangeContext } from '@/lib/personUpdates';
+import { NextResponse } from 'next/server';
+
+const MAX_BATCH_SIZE = 100;
+
+interface BatchResult {
+  id: string;
+  ok: boolean;
+  person?: unknown;
+  error?: string;
+  details?: string[];
+}
+
+// Apply the same update to several people: { ids, fields, actor?, note? }.
+// Each person is validated and written on its own, so one illegal move
+// doesn't block the rest; the response reports the outcome per id.
+export async function PATCH(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const ids: unknown = body?.ids;
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+      throw new HttpError(400, '"ids" must be a non-empty array of record ids');
+    }
+    if (ids.length > MAX_BATCH_SIZE) {
+      throw new HttpError(400, `At most ${MAX_BATCH_SIZE} people can be updated at once`);
+    }
+
+    const { context } = splitChangeContext(body, getRequestActor(request));
+    const key = request.headers.get('Idempotency-Key');
+
+    const results = await withIdempotencyKey(key && `people-batch:${key}`, async () => {
+      const outcomes: BatchResult[] = [];
+      // Sequential on purpose: Airtable allows 5 requests per second per base
+      for (const id of ids as string[]) {
+        try {
+          const person = await applyPersonUpdate(id, body.fields, context);
+          outcomes.push({ id, ok: true, person });
+        } catch (error) {
+          outcomes.push({
+            id,
+            ok: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            details: error instanceof HttpError ? error.details : undefined,
+          });
+        }
+      }
+      return outcomes;
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,12 +1,32 @@
-import { getAllPeople } from '@/lib/airtable';
+import { getRequestUser } from '@/lib/auth';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { filterPeople, hasActivityFilter, parsePipelineFilter } from '@/lib/filters';
+import { peopleFor } from '@/lib/redact';
+import { getPeopleAsOf } from '@/lib/snapshots';
+import { eventsUpTo, parseAsOf } from '@/lib/timeTravel';
 import { NextResponse } from 'next/server';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const people = await getAllPeople();
-    return NextResponse.json(people);
+    const { searchParams } = new URL(request.url);
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    const asOf = parseAsOf(searchParams.get('asOf'));
+    if (searchParams.get('asOf') && !asOf) {
+      errors.push('asOf must be a date');
+    }
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const people = asOf ? await getPeopleAsOf(asOf) : await dataSource.listPeople();
+    // The activity window is defined by funnel events, so only fetch them when needed
+    let events = hasActivityFilter(filter) ? await dataSource.listFunnelEvents() : undefined;
+    if (events && asOf) events = eventsUpTo(events, asOf);
+    // Viewers get the same records with PII removed
+    return NextResponse.json(peopleFor(getRequestUser(request), filterPeople(people, filter, events)));
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,55 @@
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { parsePipelineFilter } from '@/lib/filters';
+import { transformEventsToSankey, type SankeyMode } from '@/lib/sankeyData';
+import { renderSankeySvg } from '@/lib/sankeySvg';
+import { NextResponse } from 'next/server';
+
+function parseSize(value: string | null, fallback: number, errors: string[], name: string): number {
+  if (value === null) return fallback;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 400 || size > 4000) {
+    errors.push(`${name} must be a whole number between 400 and 4000`);
+  }
+  return size;
+}
+
+// GET /api/sankey.svg?width=1400&height=800&title=...&mode=snapshot|journey
+// Renders the dashboard Sankey headlessly so reports can embed a live image.
+// Cohort and activity filter parameters are honoured.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { filter, errors } = parsePipelineFilter(searchParams);
+    const width = parseSize(searchParams.get('width'), 1400, errors, 'width');
+    const height = parseSize(searchParams.get('height'), 800, errors, 'height');
+    const mode = (searchParams.get('mode') ?? 'snapshot') as SankeyMode;
+    if (mode !== 'snapshot' && mode !== 'journey') {
+      errors.push('mode must be snapshot or journey');
+    }
+    if (errors.length > 0) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const dataSource = getDataSource();
+    const [people, events] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const generatedAt = new Date();
+    const svg = renderSankeySvg(transformEventsToSankey(events, people, mode, filter), {
+      width,
+      height,
+      title: searchParams.get('title') ?? 'Uplift Study Developer Pipeline',
+      subtitle: `As of ${generatedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`,
+    });
+
+    return new NextResponse(svg, {
+      headers: {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        // Embedded images are refetched often; the data cache absorbs it. Sign-in
+        // is required, so only the browser may keep a copy
+        'Cache-Control': 'private, max-age=60',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
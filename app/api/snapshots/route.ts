@@ -0,0 +1,22 @@
+import { errorResponse } from '@/lib/errors';
+import { listSnapshots, recordSnapshot } from '@/lib/snapshots';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  try {
+    const snapshots = await listSnapshots();
+    return NextResponse.json(snapshots);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Record the current People table on demand (also usable from a cron job)
+export async function POST() {
+  try {
+    const snapshot = await recordSnapshot();
+    return NextResponse.json(snapshot, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,87 @@
+import { getRequestUser } from '@/lib/auth';
+import { subscribe } from '@/lib/pipelineWatcher';
+import { canSeePii, redactFunnelEvent, redactPerson } from '@/lib/redact';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_MS = 25 * 1000;
+
+// GET /api/stream -> server-sent events. A `snapshot` event with all people
+// and funnel events comes first, then a `delta` event whenever the shared
+// watcher sees records change.
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  const showPii = canSeePii(getRequestUser(request));
+  let cleanup = () => {};
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      // The runtime may close the stream before `abort` fires; stop then
+      // instead of throwing into the shared watcher or the heartbeat timer
+      const enqueue = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: string, data: unknown) => {
+        enqueue(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Listening before subscribing: a client can leave while the
+      // watcher's first fetch is still in flight
+      request.signal.addEventListener('abort', () => {
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      });
+
+      try {
+        const { state, unsubscribe } = await subscribe(delta => send('delta', showPii ? delta : {
+          ...delta,
+          people: { ...delta.people, upserted: delta.people.upserted.map(redactPerson) },
+          events: { ...delta.events, upserted: delta.events.upserted.map(redactFunnelEvent) },
+        }));
+        if (closed || request.signal.aborted) {
+          unsubscribe();
+          return;
+        }
+        const heartbeat = setInterval(() => enqueue(': keep-alive\n\n'), HEARTBEAT_MS);
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+        send('snapshot', showPii ? state : {
+          ...state,
+          people: state.people.map(redactPerson),
+          events: state.events.map(redactFunnelEvent),
+        });
+      } catch (error) {
+        // Clients fall back to polling when the stream errors
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (closed) return;
+        send('error', { error: message });
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
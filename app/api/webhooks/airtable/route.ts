@@ -0,0 +1,42 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getDataSource } from '@/lib/dataSource';
+import { errorResponse, HttpError } from '@/lib/errors';
+import { listenerCount, refreshNow } from '@/lib/pipelineWatcher';
+import { NextResponse } from 'next/server';
+
+// Airtable signs each notification with the webhook's MAC secret:
+// X-Airtable-Content-MAC: hmac-sha256=<hex of HMAC-SHA256(body)>
+function isSignedByAirtable(body: string, header: string | null, secretBase64: string): boolean {
+  if (!header?.startsWith('hmac-sha256=')) return false;
+  const expected = createHmac('sha256', Buffer.from(secretBase64, 'base64')).update(body, 'utf8').digest();
+  const received = Buffer.from(header.slice('hmac-sha256='.length), 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// POST /api/webhooks/airtable -> Airtable change notification. The payload
+// itself isn't needed: the watcher reloads both tables and pushes the
+// differences to /api/stream clients.
+export async function POST(request: Request) {
+  try {
+    const secret = process.env.AIRTABLE_WEBHOOK_MAC_SECRET;
+    if (!secret) {
+      throw new HttpError(404, 'Airtable webhook is not configured');
+    }
+
+    const body = await request.text();
+    if (!isSignedByAirtable(body, request.headers.get('x-airtable-content-mac'), secret)) {
+      throw new HttpError(401, 'Invalid webhook signature');
+    }
+
+    // Nobody is listening, so only make sure the next read is fresh
+    if (listenerCount() === 0) {
+      getDataSource().invalidateCache?.();
+      return NextResponse.json({ ok: true, listeners: 0 });
+    }
+
+    const state = await refreshNow();
+    return NextResponse.json({ ok: true, listeners: listenerCount(), version: state.version });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
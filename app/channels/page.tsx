@@ -0,0 +1,163 @@
+'use client';
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { OUTCOME_BUCKETS, outcomeBucket, type ChannelStats, type OutcomeBucket } from '@/lib/channels';
+import { TONES } from '@/lib/funnelConfig';
+import { formatDays } from '@/lib/velocity';
+
+function percent(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+function topReasons(reasons: Record<string, number>, limit = 2): string {
+  const sorted = Object.entries(reasons).sort((a, b) => b[1] - a[1]);
+  if (sorted.length === 0) return '—';
+  return sorted.slice(0, limit).map(([reason, count]) => `${reason} (${count})`).join(', ');
+}
+
+// "twitter (4), X (2)" - the raw Source/Channel values behind a channel
+function rawValuesNote(rawValues: Record<string, number>): string {
+  return Object.entries(rawValues)
+    .sort((a, b) => b[1] - a[1])
+    .map(([value, count]) => `${value || '(blank)'} (${count})`)
+    .join(', ');
+}
+
+// Current statuses of a channel's applicants, as one stacked bar
+function OutcomeBar({ stats, scale }: { stats: ChannelStats; scale: number }) {
+  const counts: Record<OutcomeBucket, number> = { Onboarded: 0, 'In progress': 0, Unassessed: 0, Closed: 0 };
+  Object.entries(stats.byStatus).forEach(([status, count]) => {
+    counts[outcomeBucket(status)] += count;
+  });
+
+  return (
+    <div className="flex h-2.5" style={{ width: `${(stats.applications / scale) * 100}%` }}>
+      {OUTCOME_BUCKETS.map(({ bucket, tone }) => counts[bucket] > 0 && (
+        <div
+          key={bucket}
+          title={`${bucket}: ${counts[bucket]}`}
+          style={{ width: `${(counts[bucket] / stats.applications) * 100}%`, background: TONES[tone].color }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function ChannelsPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={<LoadingScreen />}>
+      <ChannelsContent />
+    </Suspense>
+  );
+}
+
+function LoadingScreen() {
+  return (
+    <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
+      <div className="text-sm font-serif text-gray-600">Loading channels...</div>
+    </div>
+  );
+}
+
+function ChannelsContent() {
+  // Cohort and activity filters are passed through from the dashboard URL
+  const query = useSearchParams().toString();
+  const [channels, setChannels] = useState<ChannelStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchChannels() {
+      try {
+        const response = await fetch(`/api/metrics/channels${query ? `?${query}` : ''}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to fetch channels');
+        setChannels(data.channels);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchChannels();
+  }, [query]);
+
+  if (loading) return <LoadingScreen />;
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
+        <div className="text-sm font-serif text-red-700">Error: {error}</div>
+      </div>
+    );
+  }
+
+  const largest = Math.max(1, ...channels.map(c => c.applications));
+  const total = channels.reduce((sum, c) => sum + c.applications, 0);
+
+  return (
+    <div className="min-h-screen" style={{ background: '#fffff8' }}>
+      <div className="max-w-5xl mx-auto px-8 py-12 font-serif">
+        <header className="text-center mb-10 pb-6 border-b border-gray-300">
+          <h1 className="text-xl font-normal tracking-wide text-gray-800 mb-1">Recruiting Channels</h1>
+          <div className="text-xs text-gray-500 italic">
+            {total} applicants across {channels.length} channels, by normalized Source/Channel
+          </div>
+        </header>
+
+        <table className="w-full text-sm text-gray-700">
+          <thead>
+            <tr className="text-xs text-gray-500 italic">
+              <th className="text-left font-normal pb-2">Channel</th>
+              <th className="text-right font-normal pb-2 px-3">Applied</th>
+              <th className="text-right font-normal pb-2 px-3">Qualified</th>
+              <th className="text-right font-normal pb-2 px-3">Onboarded</th>
+              <th className="text-right font-normal pb-2 px-3">Median to onboard</th>
+              <th className="text-left font-normal pb-2 px-3 w-1/4">Where they are now</th>
+              <th className="text-left font-normal pb-2 pl-3">Top close reasons</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {channels.map(stats => (
+              <tr key={stats.channel} className="border-t border-gray-200 align-middle">
+                <td className="py-2" title={rawValuesNote(stats.rawValues)}>{stats.channel}</td>
+                <td className="text-right px-3 py-2">{stats.applications}</td>
+                <td className="text-right px-3 py-2">
+                  {percent(stats.qualificationRate)} <span className="text-xs text-gray-400">({stats.qualified})</span>
+                </td>
+                <td className="text-right px-3 py-2">
+                  {percent(stats.onboardingRate)} <span className="text-xs text-gray-400">({stats.onboarded})</span>
+                </td>
+                <td className="text-right px-3 py-2">{formatDays(stats.medianDaysToOnboard)}</td>
+                <td className="px-3 py-2"><OutcomeBar stats={stats} scale={largest} /></td>
+                <td className="pl-3 py-2 text-xs text-gray-500 italic">{topReasons(stats.closeReasons)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Tufte: legend as a single quiet line */}
+        <div className="flex justify-center gap-6 mt-6 text-xs text-gray-500">
+          {OUTCOME_BUCKETS.map(({ bucket, tone }) => (
+            <span key={bucket} className="flex items-center gap-1.5">
+              <span className="inline-block w-3 h-2.5" style={{ background: TONES[tone].color }} />
+              {bucket}
+            </span>
+          ))}
+        </div>
+        <p className="text-center mt-3 text-xs text-gray-400 italic">
+          Rates count everyone who ever reached the stage. Hover a channel for the raw values folded into it.
+        </p>
+
+        <footer className="text-center border-t border-gray-200 pt-6 mt-16">
+          <p className="text-xs text-gray-400">
+            <Link href={query ? `/?${query}` : '/'} className="hover:text-gray-700 transition-colors">Back to dashboard</Link>
+          </p>
+        </footer>
+      </div>
+    </div>
+  );
+}
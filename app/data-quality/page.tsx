@@ -0,0 +1,137 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { RuleReport, Violation } from '@/lib/dataQuality';
+
+interface TableSummary {
+  loaded: number;
+  leftOut: number;
+  fieldsDropped: number;
+}
+
+interface DataQualityReport {
+  generatedAt: string;
+  summary: { people: TableSummary; funnelEvents: TableSummary };
+  rules: RuleReport[];
+}
+
+// Recruiters and admins: consistency checks grouped by rule, with links to
+// the records involved and a fix-it action where the fix is obvious
+export default function DataQualityPage() {
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fixing, setFixing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/data-quality');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load data quality report');
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const fix = async (violation: Violation) => {
+    const key = `${violation.rule}:${violation.recordId}`;
+    setFixing(key);
+    setError(null);
+    try {
+      const res = await fetch('/api/data-quality/fix', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule: violation.rule, recordId: violation.recordId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fix failed');
+    } finally {
+      setFixing(null);
+    }
+  };
+
+  if (!report) {
+    return <div className="p-8">{error ?? 'Loading...'}</div>;
+  }
+
+  const total = report.rules.reduce((sum, rule) => sum + rule.violations.length, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Data Quality</h1>
+          <Link href="/" className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700">
+            Back to Dashboard
+          </Link>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {total === 0 ? 'No problems found' : `${total} problem${total === 1 ? '' : 's'} found`} in{' '}
+          {report.summary.people.loaded + report.summary.people.leftOut} people and{' '}
+          {report.summary.funnelEvents.loaded + report.summary.funnelEvents.leftOut} funnel events
+          {report.summary.people.leftOut + report.summary.funnelEvents.leftOut > 0 && (
+            <> ({report.summary.people.leftOut + report.summary.funnelEvents.leftOut} left out of every metric)</>
+          )}
+          . Checked {new Date(report.generatedAt).toLocaleString()}.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 text-sm flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)} className="ml-4 text-red-600 hover:text-red-900">Dismiss</button>
+          </div>
+        )}
+
+        {report.rules.map(rule => (
+          <section key={rule.id} className="bg-white rounded-lg shadow">
+            <div className="px-4 py-3 border-b flex items-baseline justify-between gap-4">
+              <h2 className="font-semibold">{rule.label}</h2>
+              <span className={`text-sm ${rule.violations.length > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                {rule.violations.length > 0 ? rule.violations.length : 'OK'}
+              </span>
+            </div>
+            <p className="px-4 py-2 text-sm text-gray-600">{rule.description}</p>
+            {rule.violations.length > 0 && (
+              <table className="w-full text-sm">
+                <tbody className="divide-y border-t">
+                  {rule.violations.map((violation, i) => {
+                    const key = `${violation.rule}:${violation.recordId}`;
+                    return (
+                      <tr key={`${key}:${i}`}>
+                        <td className="px-4 py-2 whitespace-nowrap font-mono text-xs">
+                          {violation.personId ? (
+                            <Link href={`/people/${violation.personId}`} className="hover:underline">{violation.recordId}</Link>
+                          ) : (
+                            violation.recordId || '—'
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">{violation.message}</td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap">
+                          {violation.fix && (
+                            <button
+                              onClick={() => fix(violation)}
+                              disabled={fixing !== null}
+                              className="px-3 py-1 border rounded-lg hover:bg-gray-50 disabled:opacity-40"
+                            >
+                              {fixing === key ? 'Fixing...' : violation.fix}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
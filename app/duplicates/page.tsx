@@ -0,0 +1,171 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { DuplicateCandidate, MatchReason } from '@/lib/duplicates';
+import type { Person, PersonField } from '@/lib/records';
+
+const REASON_LABELS: Record<MatchReason, string> = {
+  email: 'Same email',
+  github: 'Same GitHub',
+  name: 'Similar name',
+};
+
+const COMPARE_FIELDS: PersonField[] = ['Email', 'GitHub Link', 'Status', 'Close Class', 'Role', 'Source/Channel', 'Created'];
+
+// Recruiters and admins: pairs of records that look like one applicant,
+// side by side. Merging keeps one record and closes the other as Duplicate.
+export default function DuplicatesPage() {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/duplicates');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setCandidates(data.candidates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load duplicates');
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const post = async (key: string, url: string, body: unknown) => {
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      await load();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const merge = (keep: Person, duplicate: Person) => {
+    if (!confirm(`Keep ${keep.Name} (${keep.id}) and close ${duplicate.id} as a duplicate? Its funnel events move to the kept record.`)) return;
+    post(`${keep.id}:${duplicate.id}`, '/api/duplicates/merge', { keepId: keep.id, duplicateId: duplicate.id }).then(result => {
+      const skipped: string[] = result?.skippedFields ?? [];
+      if (skipped.length > 0) setNotice(`Merged, but these values from ${duplicate.id} were not copied: ${skipped.join(', ')}`);
+    });
+  };
+
+  if (!candidates) {
+    return <div className="p-8">{error ?? 'Loading...'}</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Duplicates</h1>
+          <Link href="/" className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700">
+            Back to Dashboard
+          </Link>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {candidates.length === 0
+            ? 'No likely duplicates found.'
+            : `${candidates.length} possible duplicate${candidates.length === 1 ? '' : 's'}.`}{' '}
+          Merged records are closed as Duplicate and left out of every metric.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 text-sm flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)} className="ml-4 text-red-600 hover:text-red-900">Dismiss</button>
+          </div>
+        )}
+
+        {notice && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-900 rounded-lg p-3 text-sm flex justify-between">
+            <span>{notice}</span>
+            <button onClick={() => setNotice(null)} className="ml-4 text-amber-700 hover:text-amber-900">Dismiss</button>
+          </div>
+        )}
+
+        {candidates.map(candidate => {
+          const pairKey = candidate.ids.join(':');
+          return (
+            <section key={pairKey} className="bg-white rounded-lg shadow">
+              <div className="px-4 py-3 border-b flex items-baseline justify-between gap-4">
+                <div className="flex gap-2">
+                  {candidate.reasons.map(reason => (
+                    <span key={reason} className="px-2 py-0.5 rounded bg-amber-100 text-amber-900 text-xs">
+                      {REASON_LABELS[reason]}
+                      {reason === 'name' && ` (${Math.round(candidate.nameSimilarity * 100)}%)`}
+                    </span>
+                  ))}
+                </div>
+                <button
+                  onClick={() => post(pairKey, '/api/duplicates/dismiss', { ids: candidate.ids })}
+                  disabled={busy !== null}
+                  className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-40"
+                >
+                  Not a duplicate
+                </button>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 w-36" />
+                    {candidate.people.map(person => (
+                      <th key={person.id} className="px-4 py-2 text-left font-semibold">
+                        <Link href={`/people/${person.id}`} className="hover:underline">{person.Name}</Link>
+                        <span className="ml-2 font-mono text-xs font-normal text-gray-500">{person.id}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {COMPARE_FIELDS.map(field => (
+                    <tr key={field}>
+                      <td className="px-4 py-2 text-gray-500">{field}</td>
+                      {candidate.people.map(person => (
+                        <td key={person.id} className="px-4 py-2">{person[field] || '—'}</td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="px-4 py-2" />
+                    {candidate.people.map((person, i) => {
+                      const other = candidate.people[1 - i];
+                      return (
+                        <td key={person.id} className="px-4 py-2">
+                          <button
+                            onClick={() => merge(person, other)}
+                            disabled={busy !== null}
+                            className={`px-3 py-1 rounded-lg disabled:opacity-40 ${
+                              person.id === candidate.suggestedKeepId
+                                ? 'bg-blue-600 text-white hover:bg-blue-700'
+                                : 'border hover:bg-gray-50'
+                            }`}
+                          >
+                            {busy === `${person.id}:${other.id}` ? 'Merging...' : 'Keep this one'}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </tbody>
+              </table>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+export default function LoginPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Only same-site paths, so the login page can't be used as an open redirect
+  const next = searchParams.get('next');
+  const destination = next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Sign in failed');
+      window.location.href = destination;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center font-serif" style={{ background: '#fffff8' }}>
+      <form onSubmit={submit} className="w-72 space-y-4">
+        <h1 className="text-xl font-normal tracking-wide text-gray-800 text-center pb-4 border-b border-gray-300">
+          Uplift Study Developer Pipeline
+        </h1>
+        <label className="block text-xs text-gray-500 italic">
+          Username
+          <input
+            autoFocus
+            autoComplete="username"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            className="mt-1 block w-full border-b border-gray-400 bg-transparent py-1 text-sm text-gray-800 not-italic focus:outline-none focus:border-gray-800"
+          />
+        </label>
+        <label className="block text-xs text-gray-500 italic">
+          Password
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="mt-1 block w-full border-b border-gray-400 bg-transparent py-1 text-sm text-gray-800 not-italic focus:outline-none focus:border-gray-800"
+          />
+        </label>
+        {error && <div className="text-xs text-red-700 italic">{error}</div>}
+        <button
+          type="submit"
+          disabled={submitting || !username || !password}
+          className="w-full border border-gray-400 py-1.5 text-sm text-gray-700 hover:border-gray-800 hover:text-gray-900 disabled:opacity-40"
+        >
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,18 +1,31 @@
 'use client';
-import { useEffect, useState } from 'react';
+import { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import SankeyChart from '@/components/SankeyChart';
-import { transformEventsToSankey, type SankeyData, type FunnelEvent } from '@/lib/sankeyData';
-
-interface Person {
-  id: string;
-  Name: string;
-  Status: string;
-  'Close Class'?: string;
-  Email?: string;
-  Role?: string;
-  'Created': string;
-  [key: string]: string | number | boolean | undefined;
+import PipelineFilterBar from '@/components/PipelineFilterBar';
+import AsOfSlider from '@/components/AsOfSlider';
+import ClosureMatrix from '@/components/ClosureMatrix';
+import BurnUpChart from '@/components/BurnUpChart';
+import Sparkline from '@/components/Sparkline';
+import { applyPipelineFilter, filterToSearchParams, isFilterActive, parsePipelineFilter, type PipelineFilter } from '@/lib/filters';
+import { transformEventsToSankey, type SankeyData, type SankeyMode } from '@/lib/sankeyData';
+import type { FunnelEvent, Person } from '@/lib/records';
+import { computeVelocity, formatDays } from '@/lib/velocity';
+import { computeClosureMatrix } from '@/lib/closures';
+import { findUncoveredStatuses, STATUS_ROLES } from '@/lib/funnelConfig';
+import type { SlaAlert } from '@/lib/sla';
+import { applyChanges } from '@/lib/pipelineDelta';
+import { usePipelineStream } from '@/lib/usePipelineStream';
+import { signOut, useSession } from '@/lib/useSession';
+import { hasRole } from '@/lib/auth';
+import { countsTowardTarget, DEFAULT_FORECAST_TARGET, type Forecast } from '@/lib/forecast';
+import { computeTimeSeries, DEFAULT_TIME_SERIES_PERIODS } from '@/lib/timeSeries';
+
+// "Mar 4, 2027" for YYYY-MM-DD forecast dates
+function formatDate(date: string | null): string {
+  if (!date) return '—';
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
 // Helper function to format time ago
@@ -33,53 +46,124 @@ function timeAgo(dateString: string): string {
 }
 
 export default function Dashboard() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={<LoadingScreen />}>
+      <DashboardContent />
+    </Suspense>
+  );
+}
+
+function LoadingScreen() {
+  return (
+    <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
+      <div className="text-sm font-serif text-gray-600">Loading data from Airtable...</div>
+    </div>
+  );
+}
+
+function DashboardContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // Filter and as-of date live in the URL so a view can be shared
+  const filter = useMemo(() => parsePipelineFilter(searchParams).filter, [searchParams]);
+  const asOf = searchParams.get('asOf');
+  const updateUrl = useCallback((nextFilter: PipelineFilter, nextAsOf: string | null) => {
+    const params = filterToSearchParams(nextFilter);
+    if (nextAsOf) params.set('asOf', nextAsOf);
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname]);
+  const setFilter = useCallback((next: PipelineFilter) => updateUrl(next, asOf), [updateUrl, asOf]);
+  const setAsOf = useCallback((next: string | null) => updateUrl(filter, next), [updateUrl, filter]);
+
   const [people, setPeople] = useState<Person[]>([]);
   const [events, setEvents] = useState<FunnelEvent[]>([]);
+  const [alerts, setAlerts] = useState<SlaAlert[]>([]);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const session = useSession();
   const [sankeyData, setSankeyData] = useState<SankeyData | null>(null);
+  const [sankeyMode, setSankeyMode] = useState<SankeyMode>('snapshot');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
 
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const [peopleRes, eventsRes] = await Promise.all([
-          fetch('/api/people'),
-          fetch('/api/funnel-events')
-        ]);
-        
-        if (!peopleRes.ok || !eventsRes.ok) {
-          throw new Error('Failed to fetch data from Airtable');
-        }
-        
-        const peopleData: Person[] = await peopleRes.json();
-        const eventsData: FunnelEvent[] = await eventsRes.json();
-        
-        setPeople(peopleData);
-        setEvents(eventsData);
-        setSankeyData(transformEventsToSankey(eventsData, peopleData));
-        setLastUpdated(new Date());
-        setError(null);
-        setLoading(false);
-      } catch (error) {
-        console.error('Error loading data:', error);
-        const message = error instanceof Error ? error.message : 'Failed to load data from Airtable';
-        setError(message);
-        setLoading(false);
+  // SLA alerts and the forecast are about today; they are optional and never block the dashboard
+  const loadInsights = useCallback(async () => {
+    const [alertsData, forecastData] = await Promise.all([
+      fetch('/api/alerts').then(res => (res.ok ? res.json() : null)).catch(() => null),
+      fetch('/api/metrics/forecast').then(res => (res.ok ? res.json() : null)).catch(() => null),
+    ]);
+    setAlerts(alertsData?.alerts ?? []);
+    // Keep the last live forecast (and its target) while looking at a past date
+    if (forecastData) setForecast(forecastData);
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const query = asOf ? `?asOf=${encodeURIComponent(asOf)}` : '';
+      const [peopleRes, eventsRes] = await Promise.all([
+        fetch(`/api/people${query}`),
+        fetch(`/api/funnel-events${query}`),
+        asOf ? null : loadInsights(),
+      ]);
+
+      if (!peopleRes.ok || !eventsRes.ok) {
+        throw new Error('Failed to fetch data from Airtable');
       }
-    };
-    
+
+      const peopleData: Person[] = await peopleRes.json();
+      const eventsData: FunnelEvent[] = await eventsRes.json();
+
+      setPeople(peopleData);
+      setEvents(eventsData);
+      setLastUpdated(new Date());
+      setError(null);
+      setLoading(false);
+    } catch (error) {
+      console.error('Error loading data:', error);
+      const message = error instanceof Error ? error.message : 'Failed to load data from Airtable';
+      setError(message);
+      setLoading(false);
+    }
+  }, [asOf, loadInsights]);
+
+  useEffect(() => {
     load();
-    const interval = setInterval(load, 30000);
-    return () => clearInterval(interval);
-  }, []);
+  }, [load]);
+
+  // The live view is kept current by /api/stream (or polling when the
+  // stream is unavailable); a past date never changes
+  usePipelineStream<Person, FunnelEvent>(!asOf, {
+    onSnapshot: snapshot => {
+      setPeople(snapshot.people);
+      setEvents(snapshot.events);
+      setLastUpdated(new Date());
+      setError(null);
+      setLoading(false);
+    },
+    onDelta: delta => {
+      setPeople(current => applyChanges(current, delta.people));
+      setEvents(current => applyChanges(current, delta.events));
+      setLastUpdated(new Date());
+      loadInsights();
+    },
+    poll: load,
+  });
+
+  useEffect(() => {
+    if (people.length === 0) return;
+    try {
+      setSankeyData(transformEventsToSankey(events, people, sankeyMode, filter));
+    } catch (error) {
+      console.error('Error building Sankey:', error);
+      setSankeyData(null);
+    }
+  }, [events, people, sankeyMode, filter]);
 
   if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
-        <div className="text-sm font-serif text-gray-600">Loading data from Airtable...</div>
-      </div>
-    );
+    return <LoadingScreen />;
   }
 
   if (error) {
@@ -94,37 +178,70 @@ export default function Dashboard() {
     );
   }
 
+  const earliestCreated = people
+    .map(p => p.Created)
+    .filter(Boolean)
+    .sort()[0]?.slice(0, 10) || new Date().toISOString().slice(0, 10);
+
+  // Progress toward the target always counts the whole pipeline
+  const onboardedToDate = people.filter(p => countsTowardTarget(p.Status)).length;
+  const target = forecast?.target ?? DEFAULT_FORECAST_TARGET;
+
+  // Statuses in Airtable that the funnel config doesn't know about
+  const uncoveredStatuses = findUncoveredStatuses(people, events);
+
+  // Metric panels follow the same cohort / activity filter as the Sankey
+  const { people: filteredPeople, events: filteredEvents } = applyPipelineFilter(people, events, filter);
+
   // Calculate metrics
-  const total = people.length;
-  const byStatus = people.reduce((acc, p) => {
+  const total = filteredPeople.length;
+  const byStatus = filteredPeople.reduce((acc, p) => {
     acc[p.Status] = (acc[p.Status] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
-  const leads = byStatus['Lead'] || 0;
-  const onboarded = byStatus['Onboarded'] || 0;
-  const closed = byStatus['Closed'] || 0;
+  const leads = byStatus[STATUS_ROLES.qualified] || 0;
+  const onboarded = byStatus[STATUS_ROLES.onboarded] || 0;
+  const closed = byStatus[STATUS_ROLES.closed] || 0;
   
   // Last application received
-  const sortedPeople = [...people].sort((a, b) => {
+  const sortedPeople = [...filteredPeople].sort((a, b) => {
     if (!a.Created || !b.Created) return 0;
     return new Date(b.Created).getTime() - new Date(a.Created).getTime();
   });
   const lastApplication = sortedPeople[0]?.Created ? timeAgo(sortedPeople[0].Created) : '—';
   
   // Last onboarded
-  const onboardedEvents = events
-    .filter(e => e['To Status'] === 'Onboarded' && e['Changed At'])
+  const onboardedEvents = filteredEvents
+    .filter(e => e['To Status'] === STATUS_ROLES.onboarded && e['Changed At'])
     .sort((a, b) => new Date(b['Changed At']).getTime() - new Date(a['Changed At']).getTime());
   const lastOnboarded = onboardedEvents[0]?.['Changed At'] ? timeAgo(onboardedEvents[0]['Changed At']) : '—';
 
-  // Close class breakdown
-  const closedPeople = people.filter(p => p.Status === 'Closed');
-  const byCloseClass = closedPeople.reduce((acc, p) => {
-    const closeClass = p['Close Class'] || 'Unknown';
-    acc[closeClass] = (acc[closeClass] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  // Close Class parsed into who closed × at which stage
+  const closureMatrix = computeClosureMatrix(filteredPeople);
+  const namesById = Object.fromEntries(filteredPeople.map(p => [p.id, p.Name]));
+
+  // Overdue people within the current filter
+  const filteredIds = new Set(filteredPeople.map(p => p.id));
+  const visibleAlerts = asOf ? [] : alerts.filter(alert => filteredIds.has(alert.personId));
+
+  // Stage durations rebuilt from funnel event timelines
+  const velocity = computeVelocity(filteredEvents, filteredPeople);
+
+  // Weekly counts ending at the viewed date
+  const trends = computeTimeSeries(
+    filteredPeople,
+    filteredEvents,
+    { interval: 'week', periods: DEFAULT_TIME_SERIES_PERIODS },
+    asOf ? new Date(`${asOf}T23:59:59Z`) : new Date()
+  );
+
+  // Metric exports carry the same filter and Sankey view as the page
+  const exportParams = filterToSearchParams(filter);
+  exportParams.set('mode', sankeyMode);
+  const exportHref = (format: string) => `/api/export/metrics?format=${format}&${exportParams.toString()}`;
+  // The channel breakdown and trends open on the same cohort
+  const filterQuery = filterToSearchParams(filter).toString();
 
   return (
     <div className="min-h-screen" style={{ background: '#fffff8' }}>
@@ -135,17 +252,59 @@ export default function Dashboard() {
             Uplift Study Developer Pipeline
           </h1>
           <div className="text-xs text-gray-500 italic mb-4">
-            Live as of {lastUpdated.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+            {asOf ? (
+              <>
+                Pipeline as of {new Date(`${asOf}T12:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                {' · '}
+                <button type="button" onClick={() => setAsOf(null)} className="underline underline-offset-4 hover:text-gray-800">back to live</button>
+              </>
+            ) : (
+              <>Live as of {lastUpdated.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</>
+            )}
           </div>
           <div className="inline-block border border-gray-300 px-5 py-2">
-            <div className="text-3xl font-serif tabular-nums text-gray-800">{onboarded}<span className="text-xl text-gray-400">/100</span></div>
+            <div className="text-3xl font-serif tabular-nums text-gray-800">{onboardedToDate}<span className="text-xl text-gray-400">/{target}</span></div>
             <div className="text-xs text-gray-500 mt-1">onboarded to date</div>
           </div>
+          {forecast && !asOf && forecast.remaining > 0 && (
+            <div className="text-xs text-gray-500 italic mt-2">
+              {forecast.throughput.projectedDate
+                ? <>At {forecast.throughput.perWeek.toFixed(1)}/week, target reached around {formatDate(forecast.throughput.projectedDate)}</>
+                : <>No onboardings in the last {forecast.throughput.windowDays} days</>}
+              {forecast.deadline && (
+                <span className={forecast.onTrack ? '' : 'text-red-700'}>
+                  {' · '}deadline {formatDate(forecast.deadline)}{forecast.onTrack ? ' (on track)' : ' (behind)'}
+                </span>
+              )}
+            </div>
+          )}
+          <div className="mt-6 space-y-3">
+            <AsOfSlider earliest={earliestCreated} value={asOf} onChange={setAsOf} />
+            <PipelineFilterBar filter={filter} onChange={setFilter} />
+            {isFilterActive(filter) && (
+              <div className="text-xs text-gray-400 italic">
+                Showing {total} of {people.length} applicants and {filteredEvents.length} of {events.length} transitions
+              </div>
+            )}
+          </div>
         </header>
 
         {/* Sankey diagram - THE STAR */}
         <figure className="mb-10">
-          {sankeyData && <SankeyChart data={sankeyData} />}
+          {sankeyData && <SankeyChart data={sankeyData} mode={sankeyMode} onModeChange={setSankeyMode} title="Uplift Study Developer Pipeline" people={people} />}
+          {!sankeyData && sankeyMode === 'journey' && (
+            <div className="text-center text-sm font-serif text-gray-500 italic py-12">
+              No funnel events to replay.{' '}
+              <button type="button" onClick={() => setSankeyMode('snapshot')} className="underline underline-offset-4 hover:text-gray-800">
+                Show current snapshot
+              </button>
+            </div>
+          )}
+          {uncoveredStatuses.length > 0 && (
+            <figcaption className="text-center mt-2 text-xs font-serif text-red-700 italic">
+              Not in the funnel config (left out of the chart): {uncoveredStatuses.map(u => `${u.status} (${u.people} people)`).join(', ')}
+            </figcaption>
+          )}
         </figure>
 
         {/* Tufte: Compact two-column metrics below viz */}
@@ -158,7 +317,7 @@ export default function Dashboard() {
             <div className="space-y-2 text-gray-700">
               <div><span className="font-semibold text-gray-800">{total > 0 ? Math.round((closed / total) * 100) : 0}%</span> of applications rejected <span className="text-gray-400">({closed})</span></div>
               <div><span className="font-semibold text-gray-800">{leads > 0 ? Math.round(((leads - onboarded) / leads) * 100) : 0}%</span> of qualified don&apos;t onboard <span className="text-gray-400">({leads - onboarded})</span></div>
-              <div><span className="font-semibold text-gray-800">{byStatus['New'] || 0}</span> unassessed <span className="text-gray-400 italic">(pending)</span></div>
+              <div><span className="font-semibold text-gray-800">{byStatus[STATUS_ROLES.unassessed] || 0}</span> unassessed <span className="text-gray-400 italic">(pending)</span></div>
             </div>
           </div>
 
@@ -168,9 +327,36 @@ export default function Dashboard() {
               Velocity
             </h2>
             <div className="space-y-2 text-gray-700">
-              <div>Application → Qualified: <span className="font-semibold text-gray-800">3d</span> <span className="text-gray-400 text-xs italic">median</span></div>
-              <div>Qualified → Call: <span className="font-semibold text-gray-800">8d</span> <span className="text-gray-400 text-xs italic">median</span></div>
-              <div>End-to-End: <span className="font-semibold text-gray-800">14d</span> <span className="text-gray-400 text-xs italic">median</span></div>
+              {velocity.map(segment => (
+                <div key={segment.label}>
+                  {segment.label}: <span className="font-semibold text-gray-800">{formatDays(segment.median)}</span>{' '}
+                  <span className="text-gray-400 text-xs italic">median</span>{' '}
+                  {segment.count > 0 && (
+                    <span className="text-gray-400 text-xs tabular-nums">
+                      ({formatDays(segment.p25)}–{formatDays(segment.p75)}, n={segment.count})
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Full width - Week-over-week sparklines */}
+          <div className="col-span-2 pt-4 border-t border-gray-200">
+            <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-3" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+              Weekly Trends <span className="text-gray-400 normal-case font-normal tracking-normal">(last {DEFAULT_TIME_SERIES_PERIODS} weeks)</span>
+            </h2>
+            <div className="grid grid-cols-5 gap-6 text-gray-700">
+              {trends.series.map(series => (
+                <div key={series.id}>
+                  <div className="text-xs text-gray-500 italic mb-1">{series.label}</div>
+                  <Sparkline values={series.values} label={`${series.label} per week`} />{' '}
+                  <span className="font-semibold text-gray-800 tabular-nums">{series.latest}</span>
+                  <div className="text-xs text-gray-400 tabular-nums">
+                    {series.previous} the week before
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
 
@@ -186,22 +372,80 @@ export default function Dashboard() {
           </div>
         </div>
 
-        {/* Closure view - compact */}
-        {closedPeople.length > 0 && (
-          <section className="max-w-4xl mx-auto mb-16">
+        {/* Needs attention - people past their stage SLA */}
+        {visibleAlerts.length > 0 && (
+          <section className="max-w-4xl mx-auto mb-12">
             <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-4 border-t border-gray-300 pt-8" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
-              Closure Reasons <span className="text-gray-400 normal-case font-normal tracking-normal">({closed} total)</span>
+              Needs Attention <span className="text-gray-400 normal-case font-normal tracking-normal">({visibleAlerts.length} overdue)</span>
             </h2>
             <div className="grid grid-cols-2 gap-x-12 gap-y-2 text-sm font-serif text-gray-700">
-              {Object.entries(byCloseClass)
-                .sort((a, b) => b[1] - a[1])
-                .map(([closeClass, count]) => (
-                  <div key={closeClass} className="flex justify-between items-baseline">
-                    <span>{closeClass}</span>
-                    <span className="tabular-nums text-gray-500 ml-4">{count} <span className="text-xs text-gray-400">({closed ? Math.round((count / closed) * 100) : 0}%)</span></span>
-                  </div>
-                ))}
+              {visibleAlerts.slice(0, 12).map(alert => (
+                <div key={alert.personId} className="flex justify-between items-baseline">
+                  <Link href={`/people/${alert.personId}`} className="hover:text-gray-900 hover:underline underline-offset-2">{alert.name}</Link>
+                  <span className="text-gray-500 ml-4 text-right">
+                    <span className="italic">{alert.status}</span>{' '}
+                    <span className="tabular-nums">{formatDays(alert.daysInStatus)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+            {visibleAlerts.length > 12 && (
+              <div className="text-xs text-gray-400 italic mt-3">
+                and {visibleAlerts.length - 12} more; <a href="/api/alerts?format=markdown" className="underline underline-offset-2 hover:text-gray-700">full digest</a>
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Progress to target - burn-up with throughput and pipeline forecasts */}
+        {forecast && !asOf && (
+          <section className="max-w-4xl mx-auto mb-12">
+            <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-4 border-t border-gray-300 pt-8" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+              Progress to Target <span className="text-gray-400 normal-case font-normal tracking-normal">({forecast.remaining} to go)</span>
+            </h2>
+            <div className="flex justify-center">
+              <BurnUpChart forecast={forecast} />
             </div>
+            <div className="grid grid-cols-2 gap-x-16 mt-6 text-sm font-serif text-gray-700">
+              <div className="space-y-1">
+                <div className="text-xs text-gray-500 italic">Recent throughput</div>
+                <div>
+                  <span className="font-semibold text-gray-800 tabular-nums">{forecast.throughput.perWeek.toFixed(1)}</span>/week over the last {forecast.throughput.windowDays} days{' '}
+                  <span className="text-gray-400">({forecast.throughput.onboardingsInWindow})</span>
+                </div>
+                <div>
+                  Target around <span className="font-semibold text-gray-800">{formatDate(forecast.throughput.projectedDate)}</span>{' '}
+                  <span className="text-gray-400 text-xs tabular-nums">
+                    (80%: {formatDate(forecast.throughput.earliestDate)}–{formatDate(forecast.throughput.latestDate)})
+                  </span>
+                </div>
+                {forecast.requiredPerWeek !== null && (
+                  <div>Needs <span className="font-semibold text-gray-800 tabular-nums">{forecast.requiredPerWeek.toFixed(1)}</span>/week to meet the deadline</div>
+                )}
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs text-gray-500 italic">Current pipeline</div>
+                <div>
+                  <span className="font-semibold text-gray-800 tabular-nums">{forecast.pipeline.expected.toFixed(1)}</span> expected onboardings{' '}
+                  <span className="text-gray-400 text-xs tabular-nums">(80%: {forecast.pipeline.low.toFixed(1)}–{forecast.pipeline.high.toFixed(1)})</span>
+                </div>
+                <div>
+                  {forecast.pipeline.projectedDate
+                    ? <>Covers the target by <span className="font-semibold text-gray-800">{formatDate(forecast.pipeline.projectedDate)}</span></>
+                    : <><span className="font-semibold text-gray-800 tabular-nums">{Math.ceil(forecast.pipeline.shortfall)}</span> more need to come from new applicants</>}
+                </div>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* Closure view - who closed × at which stage */}
+        {closureMatrix.total > 0 && (
+          <section className="max-w-4xl mx-auto mb-16">
+            <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-4 border-t border-gray-300 pt-8" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+              Closure Reasons <span className="text-gray-400 normal-case font-normal tracking-normal">({closed} total)</span>
+            </h2>
+            <ClosureMatrix matrix={closureMatrix} names={namesById} />
           </section>
         )}
 
@@ -209,7 +453,34 @@ export default function Dashboard() {
         <footer className="text-center border-t border-gray-200 pt-6 mt-20">
           <p className="text-xs font-serif text-gray-400">
             <Link href="/table" className="hover:text-gray-700 transition-colors">Complete data table</Link>
+            {' · '}
+            <Link href={filterQuery ? `/channels?${filterQuery}` : '/channels'} className="hover:text-gray-700 transition-colors">Channels</Link>
+            {' · '}
+            <Link href={filterQuery ? `/trends?${filterQuery}` : '/trends'} className="hover:text-gray-700 transition-colors">Trends</Link>
+            {hasRole(session?.user ?? null, 'recruiter') && (
+              <>
+                {' · '}<Link href="/data-quality" className="hover:text-gray-700 transition-colors">Data quality</Link>
+                {' · '}<Link href="/duplicates" className="hover:text-gray-700 transition-colors">Duplicates</Link>
+              </>
+            )}
+            {!asOf && (
+              <>
+                {' · '}Export metrics as{' '}
+                <a href={exportHref('xlsx')} className="hover:text-gray-700 transition-colors underline underline-offset-2">XLSX</a>{' / '}
+                <a href={exportHref('json')} className="hover:text-gray-700 transition-colors underline underline-offset-2">JSON</a>
+              </>
+            )}
           </p>
+          {session?.authEnabled && session.user && (
+            <p className="text-xs font-serif text-gray-400 mt-2">
+              Signed in as {session.user.username} <span className="italic">({session.user.role})</span>
+              {hasRole(session.user, 'admin') && (
+                <>{' · '}<Link href="/admin" className="hover:text-gray-700 transition-colors">Admin</Link></>
+              )}
+              {' · '}
+              <button type="button" onClick={signOut} className="hover:text-gray-700 transition-colors">Sign out</button>
+            </p>
+          )}
         </footer>
       </div>
     </div>
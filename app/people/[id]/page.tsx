@@ -0,0 +1,237 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import type { AuditEntry } from '@/lib/audit';
+import type { FunnelEvent, Person, PersonField, PersonValue } from '@/lib/records';
+import { formatDays } from '@/lib/velocity';
+
+interface StageStay {
+  status: string;
+  enteredAt: string;
+  leftAt: string | null;
+  days: number;
+}
+
+interface PersonDetail {
+  person: Person;
+  events: FunnelEvent[];
+  stays: StageStay[];
+  medianStayDays: Record<string, number>;
+}
+
+const FIELD_ORDER: PersonField[] = ['Name', 'Email', 'Status', 'Close Class', 'Role', 'Source/Channel', 'GitHub Link', 'Created'];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function formatValue(value: PersonValue | null) {
+  return value || '—';
+}
+
+export default function PersonPage() {
+  const { id } = useParams<{ id: string }>();
+  const [detail, setDetail] = useState<PersonDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // null while loading, or when the user may not see the audit log
+  const [history, setHistory] = useState<AuditEntry[] | null>(null);
+  const [revertError, setRevertError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetch(`/api/people/${id}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load person');
+        setDetail(data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load person'));
+    fetch(`/api/audit?recordId=${encodeURIComponent(id)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setHistory(data ? data.entries : null))
+      .catch(() => setHistory(null));
+  }, [id]);
+
+  useEffect(() => { load(); }, [load]);
+
+  // A revert undoes the whole update, e.g. both Status and Close Class of a close
+  const revert = async (entry: AuditEntry) => {
+    const change = (history ?? []).filter(other => other.changeId === entry.changeId);
+    const summary = change.map(other => `${other.field} back to ${formatValue(other.oldValue)}`).join(' and ');
+    if (!window.confirm(`Set ${summary}?`)) return;
+    setRevertError(null);
+    try {
+      const res = await fetch(`/api/audit/${entry.id}/revert`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error([data.error, ...(data.details || [])].join(': '));
+      load();
+    } catch (err) {
+      setRevertError(err instanceof Error ? err.message : 'Revert failed');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
+        <div className="text-sm font-serif text-red-600">{error}</div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
+        <div className="text-sm font-serif text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  const { person, events, stays, medianStayDays } = detail;
+  const fields = FIELD_ORDER.filter(name => name in person);
+  const current = stays[stays.length - 1];
+  const currentMedian = current ? medianStayDays[current.status] : undefined;
+  const longestStay = Math.max(1, ...stays.map(s => Math.max(s.days, medianStayDays[s.status] ?? 0)));
+
+  return (
+    <div className="min-h-screen" style={{ background: '#fffff8' }}>
+      <div className="max-w-4xl mx-auto px-8 py-12 font-serif">
+        <div className="text-xs text-gray-400 mb-6">
+          <Link href="/table" className="hover:text-gray-700 transition-colors">← All records</Link>
+        </div>
+
+        <header className="mb-8 pb-6 border-b border-gray-300">
+          <h1 className="text-2xl font-normal text-gray-800 mb-1">{person.Name}</h1>
+          <div className="text-sm text-gray-600">
+            {person.Status}
+            {current && (
+              <span className="text-gray-500 italic">
+                {' '}for {formatDays(current.days)}
+                {currentMedian !== undefined && (
+                  <> (median {formatDays(currentMedian)}{current.days > currentMedian ? ', longer than usual' : ''})</>
+                )}
+              </span>
+            )}
+          </div>
+        </header>
+
+        <div className="grid grid-cols-2 gap-x-16 text-sm">
+          {/* Record fields */}
+          <section>
+            <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-3" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+              Record
+            </h2>
+            <dl className="space-y-2 text-gray-700">
+              {fields.map(name => (
+                <div key={name} className="flex justify-between gap-4 items-baseline">
+                  <dt className="text-gray-500">{name}</dt>
+                  <dd className="text-right break-all">
+                    {name === 'GitHub Link' && person[name] ? (
+                      <a href={person[name]} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:text-gray-900">
+                        {person[name]}
+                      </a>
+                    ) : name === 'Created' && person[name] ? (
+                      formatDate(person[name])
+                    ) : (
+                      formatValue(person[name])
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+
+          {/* Time in stage vs pipeline median */}
+          <section>
+            <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-3" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+              Time in Stage
+            </h2>
+            <div className="space-y-3 text-gray-700">
+              {stays.map((stay, i) => {
+                const median = medianStayDays[stay.status];
+                return (
+                  <div key={`${stay.status}-${i}`}>
+                    <div className="flex justify-between items-baseline">
+                      <span>{stay.status}{!stay.leftAt && <span className="text-gray-400 italic"> (current)</span>}</span>
+                      <span className="tabular-nums text-gray-500">
+                        {formatDays(stay.days)}
+                        {median !== undefined && <span className="text-xs text-gray-400"> / {formatDays(median)} median</span>}
+                      </span>
+                    </div>
+                    <div className="relative h-1.5 mt-1 bg-gray-100">
+                      <div className="absolute inset-y-0 left-0" style={{ width: `${(stay.days / longestStay) * 100}%`, background: '#1a4a5a' }} />
+                      {median !== undefined && (
+                        <div className="absolute -top-1 -bottom-1 w-px bg-gray-500" style={{ left: `${(median / longestStay) * 100}%` }} title="Pipeline median" />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {stays.length === 0 && <div className="text-gray-400 italic">No stage history</div>}
+            </div>
+          </section>
+        </div>
+
+        {/* Funnel event timeline */}
+        <section className="mt-12 pt-8 border-t border-gray-300">
+          <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-4" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+            Timeline <span className="text-gray-400 normal-case font-normal tracking-normal">({events.length} events)</span>
+          </h2>
+          <ol className="relative border-l border-gray-300 ml-2 space-y-5 text-sm">
+            {[...events].reverse().map(event => (
+              <li key={event.id} className="ml-5">
+                <span className="absolute -left-[3px] mt-1.5 w-1.5 h-1.5 rounded-full bg-gray-500" />
+                <div className="text-gray-800">{event['From Status']} → {event['To Status']}</div>
+                <div className="text-xs text-gray-500 tabular-nums">
+                  {formatDate(event['Changed At'])}
+                  {event['Changed By'] && <> · {event['Changed By']}</>}
+                </div>
+                {event.Note && <div className="text-xs text-gray-600 italic mt-1">{event.Note}</div>}
+              </li>
+            ))}
+            {events.length === 0 && <li className="ml-5 text-gray-400 italic">No funnel events recorded</li>}
+          </ol>
+        </section>
+
+        {/* Audit log of field changes (recruiters and admins) */}
+        {history && (
+          <section className="mt-12 pt-8 border-t border-gray-300">
+            <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-4" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+              Change History <span className="text-gray-400 normal-case font-normal tracking-normal">({history.length} changes)</span>
+            </h2>
+            {revertError && <div className="text-xs text-red-600 mb-3">{revertError}</div>}
+            <table className="w-full text-sm">
+              <tbody>
+                {history.map((entry, i) => (
+                  <tr key={entry.id} className="border-b border-gray-200 align-baseline">
+                    <td className="py-2 pr-4 text-xs text-gray-500 tabular-nums whitespace-nowrap">
+                      {formatDate(entry.at)}
+                      {entry.actor && <> · {entry.actor}</>}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">{entry.field}</td>
+                    <td className="py-2 pr-4 text-gray-800 break-all">
+                      <span className="text-gray-400 line-through">{formatValue(entry.oldValue)}</span>
+                      {' → '}
+                      {formatValue(entry.newValue)}
+                      {entry.revertOf && <span className="text-xs text-gray-400 italic"> (revert)</span>}
+                    </td>
+                    <td className="py-2 text-right">
+                      {/* One button per update; its fields are listed together */}
+                      {history[i - 1]?.changeId !== entry.changeId && (
+                        <button onClick={() => revert(entry)} className="text-xs text-gray-500 underline underline-offset-2 hover:text-gray-900">
+                          Revert
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {history.length === 0 && (
+                  <tr><td className="py-2 text-gray-400 italic">No changes made through the app</td></tr>
+                )}
+              </tbody>
+            </table>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,163 @@
 'use client';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { CLOSE_CLASS_OPTIONS } from '@/lib/closeClass';
+import { filterPeopleTable } from '@/lib/filters';
+import { getStatusDefinition, STATUS_ROLES } from '@/lib/funnelConfig';
+import { applyChanges } from '@/lib/pipelineDelta';
+import { canTransition, STATUSES } from '@/lib/statusMachine';
+import { usePipelineStream } from '@/lib/usePipelineStream';
+import { useSession } from '@/lib/useSession';
+import { hasRole } from '@/lib/auth';
+import type { Person } from '@/lib/records';
 
-interface Person {
+type EditableField = 'Status' | 'Close Class' | 'Role' | 'Source/Channel';
+type FieldUpdate = Partial<Record<EditableField, string>>;
+
+interface BatchResult {
   id: string;
-  Name: string;
-  Status: string;
-  'Close Class'?: string;
-  Email?: string;
-  Role?: string;
-  'GitHub Link'?: string;
-  'Source/Channel'?: string;
-  'Created': string;
-  [key: string]: string | number | boolean | undefined | string[];
+  ok: boolean;
+  person?: Person;
+  error?: string;
 }
 
+const EXPORT_COLUMNS = ['Name', 'Email', 'Status', 'Close Class', 'Role', 'Source/Channel', 'GitHub Link', 'Created'];
+
+const BULK_ACTIONS: { label: string; fields: FieldUpdate }[] = [
+  { label: 'Mark as Scheduling Email Sent', fields: { Status: 'Scheduling Email Sent' } },
+  { label: 'Close as Withdrew — Before Call', fields: { Status: STATUS_ROLES.closed, 'Close Class': 'Withdrew — Before Call' } },
+];
+
 export default function TableView() {
+  const router = useRouter();
   const [people, setPeople] = useState<Person[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  // Person being closed from the Status menu, waiting for a Close Class
+  const [closingId, setClosingId] = useState<string | null>(null);
+  // Viewers get a read-only table with PII already removed by the API
+  const session = useSession();
+  const canEdit = hasRole(session?.user ?? null, 'recruiter');
 
-  useEffect(() => {
-    fetch('/api/people')
-      .then(res => res.json())
-      .then(data => {
-        setPeople(data);
-        setLoading(false);
-      });
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/people');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setPeople(data);
+    } catch (err) {
+      // Keep showing the rows already loaded
+      setError(err instanceof Error ? err.message : 'Failed to load people');
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
-  const statuses = ['All', ...Array.from(new Set(people.map(p => p.Status)))];
+  useEffect(() => {
+    load();
+  }, [load]);
 
-  const filtered = people.filter(p => {
-    const matchesSearch = filter === '' || 
-      p.Name?.toLowerCase().includes(filter.toLowerCase()) ||
-      p.Email?.toLowerCase().includes(filter.toLowerCase());
-    const matchesStatus = statusFilter === 'All' || p.Status === statusFilter;
-    return matchesSearch && matchesStatus;
+  // Edits made elsewhere show up without a reload
+  usePipelineStream<Person, { id: string }>(true, {
+    onSnapshot: snapshot => {
+      setPeople(snapshot.people);
+      setLoading(false);
+    },
+    onDelta: delta => setPeople(current => applyChanges(current, delta.people)),
+    poll: load,
   });
 
+  const statuses = ['All', ...Array.from(new Set(people.map(p => p.Status)))];
+
+  const filtered = filterPeopleTable(people, { search: filter, status: statusFilter });
+
+  const applyLocally = (ids: string[], fields: FieldUpdate) => {
+    setPeople(current => current.map(p => (ids.includes(p.id) ? { ...p, ...fields } : p)));
+  };
+
+  const restore = (previous: Person[]) => {
+    const byId = new Map(previous.map(p => [p.id, p]));
+    setPeople(current => current.map(p => byId.get(p.id) ?? p));
+  };
+
+  // Optimistic single-record edit, rolled back if the write fails
+  const updatePerson = async (person: Person, fields: FieldUpdate) => {
+    setError(null);
+    applyLocally([person.id], fields);
+    try {
+      const res = await fetch(`/api/people/${person.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': crypto.randomUUID() },
+        body: JSON.stringify(fields),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error([data.error, ...(data.details || [])].join(': '));
+      }
+      setPeople(current => current.map(p => (p.id === person.id ? data : p)));
+    } catch (err) {
+      restore([person]);
+      setError(`${person.Name}: ${err instanceof Error ? err.message : 'Update failed'}`);
+    }
+  };
+
+  const changeStatus = (person: Person, status: string) => {
+    if (status === STATUS_ROLES.closed && !person['Close Class']) {
+      setClosingId(person.id);
+      return;
+    }
+    updatePerson(person, { Status: status });
+  };
+
+  const runBulkAction = async (fields: FieldUpdate) => {
+    const ids = Array.from(selected);
+    const previous = people.filter(p => selected.has(p.id));
+    setError(null);
+    applyLocally(ids, fields);
+    try {
+      const res = await fetch('/api/people/batch', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': crypto.randomUUID() },
+        body: JSON.stringify({ ids, fields }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error);
+      }
+
+      const results: BatchResult[] = data.results;
+      const saved = new Map(results.filter(r => r.ok && r.person).map(r => [r.id, r.person as Person]));
+      const failed = results.filter(r => !r.ok);
+      setPeople(current => current.map(p => saved.get(p.id) ?? p));
+      restore(previous.filter(p => failed.some(r => r.id === p.id)));
+      setSelected(new Set(failed.map(r => r.id)));
+      if (failed.length > 0) {
+        setError(`${failed.length} of ${ids.length} not updated: ${failed[0].error}`);
+      }
+    } catch (err) {
+      restore(previous);
+      setError(err instanceof Error ? err.message : 'Bulk update failed');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allFilteredSelected = filtered.length > 0 && filtered.every(p => selected.has(p.id));
+  const toggleAll = () => {
+    setSelected(allFilteredSelected ? new Set() : new Set(filtered.map(p => p.id)));
+  };
+
   if (loading) {
     return <div className="p-8">Loading...</div>;
   }
@@ -72,17 +190,49 @@ export default function TableView() {
             className="px-4 py-2 border rounded-lg"
           >
             {statuses.map(s => (
-              <option key={s} value={s}>{s}</option>
+              <option key={s} value={s}>{getStatusDefinition(s)?.label ?? s}</option>
             ))}
           </select>
+          {canEdit && <ExportMenu search={filter} status={statusFilter} />}
         </div>
 
+        {/* Bulk actions */}
+        {canEdit && selected.size > 0 && (
+          <div className="bg-white rounded-lg shadow p-4 mb-6 flex items-center gap-4 text-sm">
+            <span className="text-gray-600">{selected.size} selected</span>
+            {BULK_ACTIONS.map(action => (
+              <button
+                key={action.label}
+                onClick={() => runBulkAction(action.fields)}
+                className="px-3 py-1.5 border rounded-lg hover:bg-gray-50"
+              >
+                {action.label}
+              </button>
+            ))}
+            <button onClick={() => setSelected(new Set())} className="ml-auto text-gray-500 hover:text-gray-800">
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 mb-6 text-sm flex justify-between">
+            <span>{error}</span>
+            <button onClick={() => setError(null)} className="ml-4 text-red-600 hover:text-red-900">Dismiss</button>
+          </div>
+        )}
+
         {/* Table */}
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-gray-50 border-b">
                 <tr>
+                  {canEdit && (
+                    <th className="px-4 py-3 text-left">
+                      <input type="checkbox" checked={allFilteredSelected} onChange={toggleAll} aria-label="Select all" />
+                    </th>
+                  )}
                   <th className="px-4 py-3 text-left text-sm font-semibold">Name</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold">Email</th>
                   <th className="px-4 py-3 text-left text-sm font-semibold">Status</th>
@@ -93,18 +243,67 @@ export default function TableView() {
               </thead>
               <tbody className="divide-y">
                 {filtered.map(person => (
-                  <tr key={person.id} className="hover:bg-gray-50">
-                    <td className="px-4 py-3 text-sm">{person.Name}</td>
+                  <tr
+                    key={person.id}
+                    onClick={e => {
+                      // Clicks on cells that edit or select stay on the table
+                      if ((e.target as HTMLElement).closest('a, button, input, select')) return;
+                      router.push(`/people/${person.id}`);
+                    }}
+                    className={`cursor-pointer ${selected.has(person.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    {canEdit && (
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(person.id)}
+                          onChange={() => toggleSelected(person.id)}
+                          aria-label={`Select ${person.Name}`}
+                        />
+                      </td>
+                    )}
+                    <td className="px-4 py-3 text-sm">
+                      <Link href={`/people/${person.id}`} className="hover:underline">{person.Name}</Link>
+                    </td>
                     <td className="px-4 py-3 text-sm text-gray-600">{person.Email}</td>
                     <td className="px-4 py-3">
-                      <StatusBadge status={person.Status} />
+                      {!canEdit ? (
+                        <StatusBadge status={person.Status} />
+                      ) : closingId === person.id ? (
+                        <span className="flex items-center gap-2 text-sm">
+                          <CloseClassSelect
+                            onChange={closeClass => {
+                              setClosingId(null);
+                              updatePerson(person, { Status: STATUS_ROLES.closed, 'Close Class': closeClass });
+                            }}
+                          />
+                          <button type="button" onClick={() => setClosingId(null)} className="text-gray-500 hover:text-gray-800">
+                            Cancel
+                          </button>
+                        </span>
+                      ) : (
+                        <StatusSelect status={person.Status} onChange={status => changeStatus(person, status)} />
+                      )}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-600">
-                      {person['Close Class'] || '-'}
+                      {canEdit && person.Status === STATUS_ROLES.closed ? (
+                        <CloseClassSelect
+                          value={person['Close Class']}
+                          onChange={closeClass => updatePerson(person, { 'Close Class': closeClass })}
+                        />
+                      ) : (
+                        <span>{person['Close Class'] || '-'}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <EditableText value={person.Role} readOnly={!canEdit} onSave={value => updatePerson(person, { Role: value })} />
                     </td>
-                    <td className="px-4 py-3 text-sm">{person.Role}</td>
                     <td className="px-4 py-3 text-sm text-gray-600">
-                      {person['Source/Channel'] || '-'}
+                      <EditableText
+                        value={person['Source/Channel']}
+                        readOnly={!canEdit}
+                        onSave={value => updatePerson(person, { 'Source/Channel': value })}
+                      />
                     </td>
                   </tr>
                 ))}
@@ -120,31 +319,147 @@ export default function TableView() {
   );
 }
 
+// Badge-styled select offering only the moves the status machine allows
+function StatusSelect({ status, onChange }: { status: string; onChange: (status: string) => void }) {
+  const options = STATUSES.filter(s => s === status || canTransition(status, s));
+
+  return (
+    <span className="relative inline-block">
+      <StatusBadge status={status} />
+      <select
+        value={status}
+        onChange={e => onChange(e.target.value)}
+        className="absolute inset-0 opacity-0 cursor-pointer"
+        aria-label="Change status"
+      >
+        {!options.includes(status as typeof STATUSES[number]) && <option value={status}>{status}</option>}
+        {options.map(s => (
+          <option key={s} value={s}>{getStatusDefinition(s)?.label ?? s}</option>
+        ))}
+      </select>
+    </span>
+  );
+}
+
+// Canonical Close Class values only; a legacy value stays listed until it is replaced
+function CloseClassSelect({ value, onChange }: { value?: string; onChange: (closeClass: string) => void }) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={e => e.target.value && e.target.value !== value && onChange(e.target.value)}
+      className="px-2 py-1 border rounded text-sm"
+      aria-label="Close Class"
+    >
+      {!value && <option value="">Choose a Close Class</option>}
+      {value && !CLOSE_CLASS_OPTIONS.includes(value) && <option value={value}>{value}</option>}
+      {CLOSE_CLASS_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+  );
+}
+
+// Click to edit; Enter or blur saves, Escape cancels
+function EditableText({
+  value,
+  onSave,
+  readOnly,
+}: {
+  value?: string;
+  onSave: (value: string) => void;
+  readOnly?: boolean;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(value || '');
+
+  if (readOnly) {
+    return <span>{value || '-'}</span>;
+  }
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(value || '');
+          setEditing(true);
+        }}
+        className="text-left w-full hover:underline decoration-dotted"
+        title="Click to edit"
+      >
+        {value || '-'}
+      </button>
+    );
+  }
+
+  const commit = () => {
+    setEditing(false);
+    if (draft.trim() !== (value || '')) onSave(draft.trim());
+  };
+
+  return (
+    <input
+      autoFocus
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setEditing(false);
+      }}
+      className="w-full px-2 py-1 border rounded"
+    />
+  );
+}
+
 function StatusBadge({ status }: { status: string }) {
-  const colors: Record<string, string> = {
-    'Lead': 'bg-blue-100 text-blue-800',
-    'Scheduling email sent': 'bg-cyan-100 text-cyan-800',
-    'Call scheduled': 'bg-teal-100 text-teal-800',
-    'Call completed': 'bg-green-100 text-green-800',
-    'Onboarded': 'bg-emerald-100 text-emerald-800',
-    'Active': 'bg-green-200 text-green-900',
-    'Paused': 'bg-yellow-100 text-yellow-800',
-    'Closed': 'bg-gray-200 text-gray-800',
+  const definition = getStatusDefinition(status);
+  return (
+    <span title={definition?.description || ''} className={`px-2 py-1 rounded-full text-xs font-medium ${definition?.badgeClass || 'bg-gray-100 text-gray-800'}`}>
+      {definition?.label ?? status}
+    </span>
+  );
+}
+
+// Download the rows matching the current search and status filter
+function ExportMenu({ search, status }: { search: string; status: string }) {
+  const [columns, setColumns] = useState<string[]>(EXPORT_COLUMNS);
+
+  const toggleColumn = (column: string) => {
+    setColumns(current => current.includes(column)
+      ? current.filter(c => c !== column)
+      // Keep the table's column order whatever order they were ticked in
+      : EXPORT_COLUMNS.filter(c => c === column || current.includes(c)));
   };
-  const descriptions: Record<string, string> = {
-    'Lead': 'Reviewed GitHub; meets initial criteria. Starting point after form.',
-    'Scheduling email sent': 'Outreach sent to schedule a call.',
-    'Call scheduled': 'Intro or screening call is on the calendar.',
-    'Call completed': 'Initial call happened; evaluating fit.',
-    'Onboarded': 'Completed onboarding; access and materials provided.',
-    'Active': 'Joined Slack, contributing, or signed docs.',
-    'Paused': 'Temporarily on hold; may resume later.',
-    'Closed': 'Exited funnel; see closure reason.'
+
+  const href = (format: string) => {
+    const params = new URLSearchParams({ format, columns: columns.join(',') });
+    if (search) params.set('search', search);
+    if (status !== 'All') params.set('status', status);
+    return `/api/export/people?${params.toString()}`;
   };
 
   return (
-    <span title={descriptions[status] || ''} className={`px-2 py-1 rounded-full text-xs font-medium ${colors[status] || 'bg-gray-100 text-gray-800'}`}>
-      {status}
-    </span>
+    <details className="relative">
+      <summary className="px-4 py-2 border rounded-lg cursor-pointer select-none list-none hover:bg-gray-50">Export</summary>
+      <div className="absolute right-0 z-10 mt-2 w-56 bg-white border rounded-lg shadow p-3 text-sm">
+        <div className="text-xs font-semibold text-gray-500 mb-2">Columns</div>
+        {EXPORT_COLUMNS.map(column => (
+          <label key={column} className="flex items-center gap-2 py-0.5">
+            <input type="checkbox" checked={columns.includes(column)} onChange={() => toggleColumn(column)} />
+            {column}
+          </label>
+        ))}
+        <div className="flex gap-2 mt-3 pt-3 border-t">
+          {['csv', 'xlsx', 'json'].map(format => (
+            columns.length > 0 ? (
+              <a key={format} href={href(format)} className="flex-1 text-center px-2 py-1 border rounded hover:bg-gray-50 uppercase text-xs">
+                {format}
+              </a>
+            ) : (
+              <span key={format} className="flex-1 text-center px-2 py-1 border rounded text-gray-300 uppercase text-xs">{format}</span>
+            )
+          ))}
+        </div>
+      </div>
+    </details>
   );
 }
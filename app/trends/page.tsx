@@ -0,0 +1,189 @@
+'use client';
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import Sparkline from '@/components/Sparkline';
+import { TIME_SERIES_INTERVALS, type TimeSeriesInterval, type TimeSeriesReport } from '@/lib/timeSeries';
+
+const INTERVAL_LABELS: Record<TimeSeriesInterval, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+// "Oct 13" for weeks, "Oct 2026" for months
+function formatPeriod(start: string, interval: TimeSeriesInterval): string {
+  const date = new Date(`${start}T12:00:00Z`);
+  return interval === 'month'
+    ? date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function formatChange(change: number | null): string {
+  if (change === null) return '—';
+  const percent = Math.round(change * 100);
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+}
+
+export default function TrendsPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={<LoadingScreen />}>
+      <TrendsContent />
+    </Suspense>
+  );
+}
+
+function LoadingScreen() {
+  return (
+    <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
+      <div className="text-sm font-serif text-gray-600">Loading trends...</div>
+    </div>
+  );
+}
+
+function TrendsContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // Interval and the dashboard's cohort / activity filter live in the URL
+  const query = searchParams.toString();
+  const interval: TimeSeriesInterval = searchParams.get('interval') === 'month' ? 'month' : 'week';
+  const [report, setReport] = useState<TimeSeriesReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchTrends() {
+      try {
+        const response = await fetch(`/api/metrics/timeseries${query ? `?${query}` : ''}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to fetch trends');
+        setReport(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
+    }
+
+    fetchTrends();
+  }, [query]);
+
+  const changeInterval = (next: TimeSeriesInterval) => {
+    const params = new URLSearchParams(searchParams);
+    if (next === 'week') params.delete('interval');
+    else params.set('interval', next);
+    const nextQuery = params.toString();
+    router.replace(nextQuery ? `${pathname}?${nextQuery}` : pathname, { scroll: false });
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{ background: '#fffff8' }}>
+        <div className="text-sm font-serif text-red-700">Error: {error}</div>
+      </div>
+    );
+  }
+
+  if (!report) return <LoadingScreen />;
+
+  const period = report.interval;
+  const { periods } = report;
+  // Dashboard links keep the filter but not the interval
+  const dashboardParams = new URLSearchParams(searchParams);
+  dashboardParams.delete('interval');
+  dashboardParams.delete('periods');
+  const dashboardQuery = dashboardParams.toString();
+
+  return (
+    <div className="min-h-screen" style={{ background: '#fffff8' }}>
+      <div className="max-w-5xl mx-auto px-8 py-12 font-serif">
+        <header className="text-center mb-10 pb-6 border-b border-gray-300">
+          <h1 className="text-xl font-normal tracking-wide text-gray-800 mb-1">Pipeline Trends</h1>
+          <div className="text-xs text-gray-500 italic mb-4">
+            {periods.length} {period}s from {formatPeriod(periods[0], report.interval)}; the last {period} is still in progress
+          </div>
+          <div className="inline-flex gap-4 text-xs text-gray-500">
+            {TIME_SERIES_INTERVALS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => changeInterval(option)}
+                className={option === interval ? 'text-gray-800 underline underline-offset-4' : 'hover:text-gray-800'}
+              >
+                {INTERVAL_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </header>
+
+        <table className="w-full text-sm text-gray-700">
+          <thead>
+            <tr className="text-xs text-gray-500 italic">
+              <th className="text-left font-normal pb-2"></th>
+              <th className="text-left font-normal pb-2 px-3">Last {periods.length} {period}s</th>
+              <th className="text-right font-normal pb-2 px-3">Last {period}</th>
+              <th className="text-right font-normal pb-2 px-3">{period === 'week' ? 'Week' : 'Month'} before</th>
+              <th className="text-right font-normal pb-2 px-3">Change</th>
+              <th className="text-right font-normal pb-2 pl-3">So far this {period}</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums">
+            {report.series.map(series => (
+              <tr key={series.id} className="border-t border-gray-200 align-middle">
+                <td className="py-3">{series.label}</td>
+                <td className="px-3 py-3">
+                  <Sparkline values={series.values} width={240} height={28} label={`${series.label} per ${period}`} />
+                </td>
+                <td className="text-right px-3 py-3 font-semibold text-gray-800">{series.latest}</td>
+                <td className="text-right px-3 py-3">{series.previous}</td>
+                <td className="text-right px-3 py-3">{formatChange(series.change)}</td>
+                <td className="text-right pl-3 py-3 text-gray-400">{series.values[series.values.length - 1]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-center mt-3 text-xs text-gray-400 italic">
+          Applications by Created date; other rows count each person the first time they reached the stage.
+          Dots mark the last complete {period} and the high point.
+        </p>
+
+        {/* Every value behind the sparklines */}
+        <section className="mt-12">
+          <h2 className="text-xs uppercase tracking-widest text-gray-500 mb-4 border-t border-gray-300 pt-8" style={{ fontVariant: 'small-caps', letterSpacing: '0.08em' }}>
+            By {period}
+          </h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-gray-700">
+              <thead>
+                <tr className="text-gray-500 italic">
+                  <th className="text-left font-normal pb-2"></th>
+                  {periods.map((start, i) => (
+                    <th key={start} className={`text-right font-normal pb-2 pl-3 whitespace-nowrap ${i === periods.length - 1 ? 'text-gray-400' : ''}`}>
+                      {formatPeriod(start, report.interval)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {report.series.map(series => (
+                  <tr key={series.id} className="border-t border-gray-200">
+                    <td className="py-1.5 pr-3 whitespace-nowrap">{series.label}</td>
+                    {series.values.map((value, i) => (
+                      <td key={periods[i]} className={`text-right pl-3 py-1.5 ${i === periods.length - 1 ? 'text-gray-400' : ''}`}>
+                        {value > 0 ? value : <span className="text-gray-300">·</span>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <footer className="text-center border-t border-gray-200 pt-6 mt-16">
+          <p className="text-xs text-gray-400">
+            <Link href={dashboardQuery ? `/?${dashboardQuery}` : '/'} className="hover:text-gray-700 transition-colors">Back to dashboard</Link>
+          </p>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+import { useEffect, useState } from 'react';
+
+interface AsOfSliderProps {
+  earliest: string;          // YYYY-MM-DD
+  value: string | null;      // YYYY-MM-DD, null means live
+  onChange: (asOf: string | null) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Day-granularity time travel. The label follows the thumb while dragging;
+// the pipeline is only refetched once the thumb is released.
+export default function AsOfSlider({ earliest, value, onChange }: AsOfSliderProps) {
+  const today = toDay(new Date());
+  const start = new Date(`${earliest}T00:00:00.000Z`).getTime();
+  const totalDays = Math.max(0, Math.round((new Date(`${today}T00:00:00.000Z`).getTime() - start) / DAY_MS));
+  const offsetOf = (day: string) => Math.round((new Date(`${day}T00:00:00.000Z`).getTime() - start) / DAY_MS);
+
+  // Thumb position of the committed value; the draft resets when it changes
+  const valueOffset = value ? offsetOf(value) : totalDays;
+  const [draft, setDraft] = useState(valueOffset);
+  useEffect(() => {
+    setDraft(valueOffset);
+  }, [valueOffset]);
+
+  const draftDay = toDay(new Date(start + draft * DAY_MS));
+  const commit = () => onChange(draft >= totalDays ? null : draftDay);
+
+  return (
+    <div className="flex justify-center items-baseline gap-3 text-xs font-serif text-gray-500">
+      <span className="italic">As of</span>
+      <input
+        type="range"
+        min={0}
+        max={totalDays}
+        step={1}
+        value={draft}
+        onChange={e => setDraft(Number(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        className="w-72 accent-gray-600"
+        aria-label="Show the pipeline as of date"
+      />
+      <span className="tabular-nums w-20 text-left text-gray-700">{draft >= totalDays ? 'today' : draftDay}</span>
+    </div>
+  );
+}
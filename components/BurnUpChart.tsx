@@ -0,0 +1,85 @@
+'use client';
+import * as d3 from 'd3';
+import type { Forecast } from '@/lib/forecast';
+import { TONES } from '@/lib/funnelConfig';
+
+interface BurnUpChartProps {
+  forecast: Forecast;
+  width?: number;
+  height?: number;
+}
+
+const MARGIN = { top: 16, right: 90, bottom: 28, left: 36 };
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+// Cumulative onboardings against the target: actual to date, then the
+// throughput projection with its 80% band. Tufte: no grid, direct labels.
+export default function BurnUpChart({ forecast, width = 720, height = 240 }: BurnUpChartProps) {
+  const { actual, projection, target, deadline } = forecast;
+  const innerWidth = width - MARGIN.left - MARGIN.right;
+  const innerHeight = height - MARGIN.top - MARGIN.bottom;
+
+  const dates = [...actual.map(p => day(p.date)), ...projection.map(p => day(p.date))];
+  if (deadline) dates.push(day(deadline));
+  const x = d3.scaleUtc()
+    .domain(d3.extent(dates) as [Date, Date])
+    .range([0, innerWidth]);
+  const y = d3.scaleLinear()
+    .domain([0, Math.max(target, d3.max(projection, p => p.high) ?? 0) * 1.05])
+    .range([innerHeight, 0]);
+
+  const actualLine = d3.line<{ date: string; onboarded: number }>()
+    .x(p => x(day(p.date)))
+    .y(p => y(p.onboarded))
+    .curve(d3.curveStepAfter)(actual) ?? '';
+  const projectedLine = d3.line<{ date: string; expected: number }>()
+    .x(p => x(day(p.date)))
+    .y(p => y(p.expected))(projection) ?? '';
+  const band = d3.area<{ date: string; low: number; high: number }>()
+    .x(p => x(day(p.date)))
+    .y0(p => y(p.low))
+    .y1(p => y(p.high))(projection) ?? '';
+
+  const last = projection[projection.length - 1];
+  const ticks = x.ticks(6);
+  const tickFormat = d3.utcFormat('%b %Y');
+
+  return (
+    <svg width={width} height={height} className="font-serif" role="img" aria-label={`Onboarded over time toward ${target}`}>
+      <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+        <path d={band} fill={TONES.pending.color} opacity={0.12} />
+        <path d={projectedLine} fill="none" stroke={TONES.pending.color} strokeWidth={1.5} strokeDasharray="4 3" />
+        <path d={actualLine} fill="none" stroke={TONES.success.color} strokeWidth={2} />
+
+        {/* Target line, labelled at the right edge */}
+        <line x1={0} x2={innerWidth} y1={y(target)} y2={y(target)} stroke={TONES.closed.color} strokeDasharray="2 3" />
+        <text x={innerWidth + 6} y={y(target)} dy="0.35em" fontSize={11} fill="#666">Target {target}</text>
+        {last && (
+          <text x={innerWidth + 6} y={y(Math.min(last.expected, target))} dy={last.expected >= target * 0.9 ? '1.4em' : '0.35em'} fontSize={11} fontStyle="italic" fill={TONES.pending.color}>
+            projected
+          </text>
+        )}
+
+        {deadline && (
+          <>
+            <line x1={x(day(deadline))} x2={x(day(deadline))} y1={0} y2={innerHeight} stroke={TONES.closed.color} strokeDasharray="2 3" />
+            <text x={x(day(deadline))} y={-4} textAnchor="middle" fontSize={11} fill="#666">Deadline</text>
+          </>
+        )}
+
+        {/* Minimal axes: baseline with date ticks, value labels at 0 and target */}
+        <line x1={0} x2={innerWidth} y1={innerHeight} y2={innerHeight} stroke="#ccc" />
+        {ticks.map(tick => (
+          <text key={tick.toISOString()} x={x(tick)} y={innerHeight + 18} textAnchor="middle" fontSize={10} fill="#888">
+            {tickFormat(tick)}
+          </text>
+        ))}
+        <text x={-8} y={innerHeight} dy="0.35em" textAnchor="end" fontSize={10} fill="#888">0</text>
+        <text x={-8} y={y(forecast.onboarded)} dy="0.35em" textAnchor="end" fontSize={10} fill={TONES.success.color} className="tabular-nums">
+          {forecast.onboarded}
+        </text>
+      </g>
+    </svg>
+  );
+}
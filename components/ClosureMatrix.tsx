@@ -0,0 +1,84 @@
+'use client';
+import Link from 'next/link';
+import type { ClosureMatrix as ClosureMatrixData } from '@/lib/closures';
+
+interface ClosureMatrixProps {
+  matrix: ClosureMatrixData;
+  names?: Record<string, string>;  // Person id → name for unrecognized values
+}
+
+const MAX_LINKED_PEOPLE = 5;
+
+// Who closed (rows) × at which stage (columns), with margins as totals
+export default function ClosureMatrix({ matrix, names = {} }: ClosureMatrixProps) {
+  const percent = (count: number) => (matrix.total > 0 ? Math.round((count / matrix.total) * 100) : 0);
+  const recognizedTotal = matrix.actors.reduce((sum, actor) => sum + matrix.actorTotals[actor], 0);
+
+  return (
+    <div className="text-sm font-serif text-gray-700">
+      <table className="w-full">
+        <thead>
+          <tr className="text-xs text-gray-500 italic">
+            <th className="text-left font-normal pb-2"></th>
+            {matrix.stages.map(stage => (
+              <th key={stage} className="text-right font-normal pb-2 px-3">{stage}</th>
+            ))}
+            <th className="text-right font-normal pb-2 pl-3">Total</th>
+          </tr>
+        </thead>
+        <tbody className="tabular-nums">
+          {matrix.actors.map(actor => (
+            <tr key={actor} className="border-t border-gray-200">
+              <td className="py-1.5">{actor}</td>
+              {matrix.stages.map(stage => {
+                const count = matrix.counts[actor][stage];
+                return (
+                  <td key={stage} className="text-right px-3 py-1.5">
+                    {count > 0 ? (
+                      <>{count} <span className="text-xs text-gray-400">({percent(count)}%)</span></>
+                    ) : (
+                      <span className="text-gray-300">·</span>
+                    )}
+                  </td>
+                );
+              })}
+              <td className="text-right pl-3 py-1.5 text-gray-800">{matrix.actorTotals[actor]}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-gray-400 text-gray-800">
+            <td className="py-1.5 italic text-gray-500">Total</td>
+            {matrix.stages.map(stage => (
+              <td key={stage} className="text-right px-3 py-1.5">{matrix.stageTotals[stage]}</td>
+            ))}
+            <td className="text-right pl-3 py-1.5">{recognizedTotal}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {matrix.unrecognized.length > 0 && (
+        <div className="mt-6 text-xs text-gray-500">
+          <div className="italic text-red-700 mb-2">
+            {matrix.total - recognizedTotal} closed {matrix.total - recognizedTotal === 1 ? 'person has' : 'people have'} a Close Class that couldn&apos;t be parsed:
+          </div>
+          <ul className="space-y-1.5">
+            {matrix.unrecognized.map(entry => (
+              <li key={entry.closeClass}>
+                <span className="text-gray-700">{entry.closeClass ? `“${entry.closeClass}”` : 'No Close Class'}</span>{' '}
+                <span className="tabular-nums">({entry.count})</span>{' '}
+                <span className="italic">{entry.reason}</span>
+                {' — '}
+                {entry.personIds.slice(0, MAX_LINKED_PEOPLE).map((id, i) => (
+                  <span key={id}>
+                    {i > 0 && ', '}
+                    <Link href={`/people/${id}`} className="underline underline-offset-2 hover:text-gray-800">{names[id] ?? id}</Link>
+                  </span>
+                ))}
+                {entry.personIds.length > MAX_LINKED_PEOPLE && <> and {entry.personIds.length - MAX_LINKED_PEOPLE} more</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+import { isFilterActive, type PipelineFilter } from '@/lib/filters';
+
+interface PipelineFilterBarProps {
+  filter: PipelineFilter;
+  onChange: (filter: PipelineFilter) => void;
+}
+
+const ACTIVITY_WINDOWS = [7, 14, 30, 90];
+
+// Tufte-style inline filter controls: plain text, hairline inputs, no chrome
+export default function PipelineFilterBar({ filter, onChange }: PipelineFilterBarProps) {
+  const customActivity = !filter.activityDays && Boolean(filter.activityFrom || filter.activityTo);
+  const inputClass = 'bg-transparent border-b border-gray-300 px-1 text-gray-700 focus:outline-none focus:border-gray-600';
+
+  return (
+    <div className="flex flex-wrap justify-center items-baseline gap-x-8 gap-y-2 text-xs font-serif text-gray-500">
+      <label className="flex items-baseline gap-2">
+        <span className="italic">Applied</span>
+        <input
+          type="date"
+          value={filter.cohortFrom || ''}
+          onChange={e => onChange({ ...filter, cohortFrom: e.target.value || undefined })}
+          className={inputClass}
+        />
+        <span>–</span>
+        <input
+          type="date"
+          value={filter.cohortTo || ''}
+          onChange={e => onChange({ ...filter, cohortTo: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-baseline gap-2">
+        <span className="italic">Moved in</span>
+        <select
+          value={filter.activityDays || (customActivity ? 'custom' : '')}
+          onChange={e => onChange({
+            ...filter,
+            activityDays: e.target.value ? Number(e.target.value) : undefined,
+            activityFrom: undefined,
+            activityTo: undefined,
+          })}
+          className={inputClass}
+        >
+          <option value="">all time</option>
+          {customActivity && (
+            <option value="custom" disabled>{filter.activityFrom || '…'} – {filter.activityTo || 'today'}</option>
+          )}
+          {ACTIVITY_WINDOWS.map(days => (
+            <option key={days} value={days}>last {days} days</option>
+          ))}
+        </select>
+      </label>
+      {isFilterActive(filter) && (
+        <button type="button" onClick={() => onChange({})} className="underline underline-offset-4 hover:text-gray-800">
+          clear
+        </button>
+      )}
+    </div>
+  );
+}
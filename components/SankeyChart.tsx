@@ -1,17 +1,32 @@
 'use client';
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import * as d3 from 'd3';
-import { sankey, sankeyLinkHorizontal, sankeyLeft } from 'd3-sankey';
-import type { SankeyData } from '@/lib/sankeyData';
+import { validateSankeyFlow, type SankeyData, type SankeyMode } from '@/lib/sankeyData';
+import { layoutSankey, SANKEY_FONT, SANKEY_LEGEND } from '@/lib/sankeyLayout';
+import { standaloneSankeySvg } from '@/lib/sankeySvg';
 
 interface SankeyChartProps {
   data: SankeyData;
   width?: number;
   height?: number;
+  mode?: SankeyMode;
+  onModeChange?: (mode: SankeyMode) => void;
+  title?: string;      // Used as the heading of downloaded images
+  people?: { id: string; Name: string; Status: string }[]; // Resolves names in the drill-down panel
 }
 
-export default function SankeyChart({ data, width = 1400, height = 800 }: SankeyChartProps) {
+// The people behind a clicked node or flow
+interface Selection {
+  label: string;
+  detail: string;
+  personIds: string[];
+}
+
+export default function SankeyChart({ data, width = 1400, height = 800, mode, onModeChange, title, people }: SankeyChartProps) {
   const svgRef = useRef<SVGSVGElement>(null);
+  const imbalances = useMemo(() => validateSankeyFlow(data), [data]);
+  const [selection, setSelection] = useState<Selection | null>(null);
 
   useEffect(() => {
     if (!svgRef.current || !data.nodes.length) return;
@@ -19,277 +34,202 @@ export default function SankeyChart({ data, width = 1400, height = 800 }: Sankey
 
     d3.select(svgRef.current).selectAll('*').remove();
 
-    const svg = d3.select(svgRef.current);
-    const margin = { top: 40, right: 220, bottom: 80, left: 100 };
-    const innerWidth = width - margin.left - margin.right;
-    const innerHeight = height - margin.top - margin.bottom;
-
-    const g = svg
+    const scene = layoutSankey(data, width, height);
+    const g = d3.select(svgRef.current)
       .append('g')
-      .attr('transform', `translate(${margin.left},${margin.top})`);
-    
-    // Manually assign node layers for proper sequential layout
-    const nodeDepthMap: Record<string, number> = {
-      'Applications': 0,
-      'Unassessed': 1,
-      'Closed/Rejected': 5,  // Far right to minimize visual dominance
-      'Qualified': 1,
-      'Waiting on Reply': 2,
-      'Call Upcoming': 2,
-      'Call Completed': 2,
-      'Onboarded': 3,
-      'Paused': 3,
-    };
-
-    type ExtendedNode = { name: string; category: string; index: number; depth: number };
-    type ExtendedLink = { source: string | number; target: string | number; value: number };
-    type SankeyNodeExtended = ExtendedNode & {
-      x0?: number;
-      x1?: number;
-      y0?: number;
-      y1?: number;
-      value?: number;
-    };
-
-    const graphData: { nodes: ExtendedNode[]; links: ExtendedLink[] } = {
-      nodes: data.nodes.map((d, i) => ({ 
-        ...d, 
-        index: i,
-        depth: nodeDepthMap[d.name] ?? i  // Explicitly set depth/layer
-      })),
-      links: data.links.map(d => ({ 
-        source: d.source, 
-        target: d.target, 
-        value: d.value 
-      }))
-    };
-
-    const sankeyGenerator = sankey<ExtendedNode, ExtendedLink>()
-      .nodeId((d) => d.name)
-      .nodeAlign(sankeyLeft)
-      .nodeWidth(3) // Tufte: thin data-bearing line, slightly thicker for clarity
-      .nodePadding(80) // Much more spacing between nodes to prevent visual overlap
-      .extent([[0, 0], [innerWidth, innerHeight]])
-      .iterations(100); // More iterations for better layout
-
-    const graph = sankeyGenerator(graphData);
-    if (!graph || !graph.nodes || !graph.links) return;
-
-    const nodes = graph.nodes;
-    const links = graph.links;
-
-    // Color scheme matching the provided design
-    const getNodeColor = (nodeName: string) => {
-      if (nodeName === 'Onboarded' || nodeName === 'Qualified' || nodeName === 'Call Completed') return '#1a4a5a'; // success
-      if (nodeName === 'Waiting on Reply' || nodeName === 'Call Upcoming' || nodeName === 'Paused') return '#5a7a8a'; // pending
-      if (nodeName === 'Unassessed') return '#8a7a4a'; // unreviewed
-      if (nodeName === 'Closed/Rejected') return '#aaaaaa'; // closed
-      return '#777777'; // neutral (Applications)
-    };
+      .attr('transform', `translate(${scene.margin.left},${scene.margin.top})`);
 
-    type SankeyLinkExtended = {
-      source: SankeyNodeExtended;
-      target: SankeyNodeExtended;
-      width?: number;
-      value?: number;
-      y0?: number;
-      y1?: number;
-    };
-
-    const getLinkColor = (link: SankeyLinkExtended) => {
-      const targetName = link.target.name || '';
-      if (targetName === 'Closed/Rejected') return '#777777';
-      if (targetName === 'Onboarded' || targetName === 'Call Completed') return '#1a4a5a';
-      if (targetName === 'Waiting on Reply' || targetName === 'Call Upcoming' || targetName === 'Paused') return '#5a7a8a';
-      if (targetName === 'Unassessed') return '#8a7a4a';
-      return '#1a4a5a';
-    };
-
-    const getLinkOpacity = (link: SankeyLinkExtended) => {
-      const targetName = link.target.name || '';
-      if (targetName === 'Closed/Rejected') return 0.20;
-      if (targetName === 'Waiting on Reply' || targetName === 'Call Upcoming' || targetName === 'Unassessed') return 0.25;
-      return 0.25;
-    };
-
-    // Draw links with category-based colors
+    // Draw links with category-based colors; back-edges are dashed
     g.append('g')
       .attr('fill', 'none')
       .selectAll('path')
-      .data(links)
+      .data(scene.links)
       .join('path')
-      .attr('d', sankeyLinkHorizontal())
-      .attr('stroke', d => getLinkColor(d as SankeyLinkExtended))
-      .attr('stroke-width', d => Math.max(1.5, (d as SankeyLinkExtended).width || 0)) // Minimum 1.5px for visibility
-      .attr('opacity', d => getLinkOpacity(d as SankeyLinkExtended))
-      .on('mouseover', function() {
-        d3.select(this).attr('opacity', 0.40);
+      .attr('d', d => d.d)
+      .attr('stroke', d => d.stroke)
+      .attr('stroke-width', d => d.strokeWidth)
+      .attr('stroke-dasharray', d => (d.dashed ? '4 3' : null))
+      .attr('opacity', d => d.opacity)
+      .style('cursor', 'pointer')
+      .on('mouseover', function(event, d) {
+        if (!d.dashed) d3.select(this).attr('opacity', 0.40);
       })
       .on('mouseout', function(event, d) {
-        d3.select(this).attr('opacity', getLinkOpacity(d as SankeyLinkExtended));
-      });
+        d3.select(this).attr('opacity', d.opacity);
+      })
+      .on('click', (event, d) => setSelection({
+        label: `${d.link.source} → ${d.link.target}`,
+        detail: d.tooltip,
+        personIds: d.link.personIds ?? [],
+      }))
+      .append('title')
+      .text(d => d.tooltip);
 
     // Draw nodes as rectangles
     g.append('g')
       .selectAll('rect')
-      .data(nodes)
+      .data(scene.nodes)
       .join('rect')
-      .attr('x', d => d.x0 || 0)
-      .attr('y', d => d.y0 || 0)
-      .attr('height', d => (d.y1 || 0) - (d.y0 || 0))
-      .attr('width', d => (d.x1 || 0) - (d.x0 || 0))
-      .attr('fill', d => getNodeColor(d.name))
+      .attr('x', d => d.x)
+      .attr('y', d => d.y)
+      .attr('height', d => d.height)
+      .attr('width', d => d.width)
+      .attr('fill', d => d.fill)
       .attr('stroke', 'none');
 
-    // Tufte-style labels: Direct labeling integrated with the visualization
-    // Node labels - positioned to avoid overlap, hierarchy through size/weight
-    g.append('g')
-      .selectAll('text.node-label')
-      .data(nodes)
-      .join('text')
-      .attr('class', 'node-label')
-      .attr('x', d => {
-        const x = d.x0 || 0;
-        // Left-aligned for left-side nodes, right-aligned for right-side nodes
-        return x < innerWidth / 2 ? (d.x1 || 0) + 8 : (d.x0 || 0) - 8;
-      })
-      .attr('y', d => ((d.y0 || 0) + (d.y1 || 0)) / 2)
-      .attr('dy', '0.35em')
-      .attr('text-anchor', d => (d.x0 || 0) < innerWidth / 2 ? 'start' : 'end')
-      .attr('font-family', 'Georgia, serif')
-      .attr('font-size', d => {
-        // Hierarchy: larger for key nodes
-        if (d.name === 'Applications' || d.name === 'Onboarded') return '15px';
-        return '13px';
-      })
-      .attr('font-weight', d => {
-        // Emphasis on outcomes
-        if (d.name === 'Onboarded') return '600';
-        if (d.name === 'Applications') return '500';
-        return '400';
-      })
-      .attr('fill', '#111')
-      .text(d => d.name);
-
-    // Value annotations - small, subtle, integrated
+    // Nodes are only a few pixels wide, so give them a wider click target
     g.append('g')
-      .selectAll('text.node-value')
-      .data(nodes)
-      .join('text')
-      .attr('class', 'node-value')
-      .attr('x', d => {
-        const x = d.x0 || 0;
-        return x < innerWidth / 2 ? (d.x1 || 0) + 8 : (d.x0 || 0) - 8;
-      })
-      .attr('y', d => ((d.y0 || 0) + (d.y1 || 0)) / 2 + 16)
-      .attr('text-anchor', d => (d.x0 || 0) < innerWidth / 2 ? 'start' : 'end')
-      .attr('font-family', 'Georgia, serif')
-      .attr('font-size', '11px')
-      .attr('font-variant-numeric', 'tabular-nums')
-      .attr('fill', '#666')
-      .text(d => `n=${d.value || 0}`);
-
-    // Flow annotations - only for significant transitions (value ≥ 15)
-    // Positioned thoughtfully to avoid crossing paths
-    const significantFlows = links.filter((d) => {
-      const link = d as SankeyLinkExtended;
-      const targetName = link.target.name || '';
-      return (link.value || 0) >= 15 && targetName !== 'Closed/Rejected';
-    });
-    
+      .attr('class', 'hit-area')
+      .selectAll('rect')
+      .data(scene.nodes)
+      .join('rect')
+      .attr('x', d => d.x - 6)
+      .attr('y', d => d.y)
+      .attr('height', d => d.height)
+      .attr('width', d => d.width + 12)
+      .attr('fill', 'transparent')
+      .style('cursor', 'pointer')
+      .on('click', (event, d) => setSelection({ label: d.name, detail: d.tooltip, personIds: d.personIds }))
+      .append('title')
+      .text(d => d.tooltip);
+
+    // Labels, counts and marginal annotations
     g.append('g')
-      .selectAll('text.flow-value')
-      .data(significantFlows)
+      .attr('font-family', SANKEY_FONT)
+      .selectAll('text')
+      .data(scene.texts)
       .join('text')
-      .attr('class', 'flow-value')
-      .attr('x', d => {
-        const link = d as SankeyLinkExtended;
-        const sourceX = link.source.x1 || 0;
-        const targetX = link.target.x0 || 0;
-        return (sourceX + targetX) / 2;
-      })
-      .attr('y', d => {
-        const link = d as SankeyLinkExtended;
-        return ((link.y0 || 0) + (link.y1 || 0)) / 2;
-      })
-      .attr('dy', '-4px')
-      .attr('text-anchor', 'middle')
-      .attr('font-family', 'Georgia, serif')
-      .attr('font-size', '10px')
-      .attr('font-style', 'italic')
-      .attr('font-variant-numeric', 'tabular-nums')
-      .attr('fill', '#888')
-      .text(d => (d as SankeyLinkExtended).value || 0);
-
-    // Tufte: Marginal annotations for key insights
-    // Conversion rate from Applications to Qualified
-    const applicationsNode = nodes.find(n => n.name === 'Applications');
-    const qualifiedNode = nodes.find(n => n.name === 'Qualified');
-    
-    if (applicationsNode && qualifiedNode && applicationsNode.value && qualifiedNode.value) {
-      const conversionRate = Math.round((qualifiedNode.value / applicationsNode.value) * 100);
-      
-      g.append('text')
-        .attr('x', (qualifiedNode.x1 || 0) + 8)
-        .attr('y', (qualifiedNode.y1 || 0) + 18)
-        .attr('font-family', 'Georgia, serif')
-        .attr('font-size', '11px')
-        .attr('font-style', 'italic')
-        .attr('fill', '#888')
-        .text(`${conversionRate}% qualification rate`);
-    }
-
-    // Completion rate from Qualified to Onboarded
-    const onboardedNode = nodes.find(n => n.name === 'Onboarded');
-    
-    if (qualifiedNode && onboardedNode && qualifiedNode.value && onboardedNode.value && onboardedNode.value > 0) {
-      const completionRate = Math.round((onboardedNode.value / qualifiedNode.value) * 100);
-      
-      // Position annotation to the right of Onboarded node, not above it
-      g.append('text')
-        .attr('x', (onboardedNode.x1 || 0) + 8)
-        .attr('y', ((onboardedNode.y0 || 0) + (onboardedNode.y1 || 0)) / 2 + 30)
-        .attr('text-anchor', 'start')
-        .attr('font-family', 'Georgia, serif')
-        .attr('font-size', '11px')
-        .attr('font-style', 'italic')
-        .attr('fill', '#1a4a5a')
-        .attr('font-weight', '500')
-        .text(`${completionRate}% of qualified reach onboarding`);
-    }
-
+      .attr('class', d => d.className)
+      .attr('x', d => d.x)
+      .attr('y', d => d.y)
+      .attr('dy', d => d.dy ?? null)
+      .attr('text-anchor', d => d.anchor)
+      .attr('font-size', d => `${d.size}px`)
+      .attr('font-weight', d => d.weight ?? null)
+      .attr('font-style', d => (d.italic ? 'italic' : null))
+      .attr('font-variant-numeric', d => (d.tabular ? 'tabular-nums' : null))
+      .attr('fill', d => d.fill)
+      .text(d => d.text);
   }, [data, width, height]);
 
+  // Serialize what is on screen, with fonts and the legend inlined
+  const toStandaloneSvg = () => standaloneSankeySvg(svgRef.current?.innerHTML ?? '', {
+    width,
+    height,
+    title,
+    subtitle: `Generated ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+  });
+
+  const downloadSvg = () => {
+    download(new Blob([toStandaloneSvg()], { type: 'image/svg+xml' }), 'svg');
+  };
+
+  const downloadPng = () => {
+    const url = URL.createObjectURL(new Blob([toStandaloneSvg()], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      // 2x for crisp slides
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * 2;
+      canvas.height = image.height * 2;
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!context) return;
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob(blob => blob && download(blob, 'png'), 'image/png');
+    };
+    image.src = url;
+  };
+
   return (
     <div className="py-2" style={{ background: 'transparent' }}>
+      {onModeChange && (
+        <div className="flex justify-center gap-3 mb-4 text-xs font-serif text-gray-500">
+          {(['snapshot', 'journey'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onModeChange(option)}
+              className={option === mode ? 'text-gray-800 underline underline-offset-4' : 'hover:text-gray-800'}
+            >
+              {option === 'snapshot' ? 'Current snapshot' : 'Actual journeys'}
+            </button>
+          ))}
+        </div>
+      )}
       <svg ref={svgRef} width={width} height={height} className="mx-auto" style={{ background: 'transparent' }} />
+      {selection && <DrillDownPanel selection={selection} people={people} onClose={() => setSelection(null)} />}
       
       {/* Tufte-style legend/key: minimal, directly integrated */}
       <div className="flex justify-center gap-10 mt-6 text-sm font-serif text-gray-600">
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-sm" style={{ backgroundColor: '#1a4a5a' }}></div>
-          <span>Active progression</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-sm" style={{ backgroundColor: '#5a7a8a' }}></div>
-          <span>Pending action</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-sm" style={{ backgroundColor: '#8a7a4a' }}></div>
-          <span>Unreviewed</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-sm" style={{ backgroundColor: '#aaaaaa' }}></div>
-          <span>Closed</span>
-        </div>
+        {SANKEY_LEGEND.map(item => (
+          <div key={item.label} className="flex items-center gap-2">
+            <div className="w-4 h-4 rounded-sm" style={{ backgroundColor: item.color }}></div>
+            <span>{item.label}</span>
+          </div>
+        ))}
       </div>
       
       {/* Tufte: Small annotation for clarity */}
       <div className="text-center mt-4 text-sm font-serif text-gray-500 italic">
         Flow width represents volume; <span className="font-variant-numeric: tabular-nums">n</span> indicates count at each stage
+        {mode === 'journey' && <>; dashed arcs are moves back up the funnel</>}
+      </div>
+      {imbalances.length > 0 && (
+        <div className="text-center mt-2 text-xs font-serif text-red-700 italic">
+          Flow check: unbalanced at {imbalances.map(i => `${i.node} (${i.inflow} in, ${i.outflow} out)`).join(', ')}
+        </div>
+      )}
+      <div className="text-center mt-3 text-xs font-serif text-gray-400">
+        Download{' '}
+        <button type="button" onClick={downloadSvg} className="underline underline-offset-2 hover:text-gray-700">SVG</button>
+        {' / '}
+        <button type="button" onClick={downloadPng} className="underline underline-offset-2 hover:text-gray-700">PNG</button>
       </div>
     </div>
   );
 }
 
+function DrillDownPanel({ selection, people, onClose }: {
+  selection: Selection;
+  people?: SankeyChartProps['people'];
+  onClose: () => void;
+}) {
+  const byId = new Map(people?.map(person => [person.id, person]));
+  const rows = selection.personIds
+    .map(id => ({ id, person: byId.get(id) }))
+    .sort((a, b) => (a.person?.Name ?? a.id).localeCompare(b.person?.Name ?? b.id));
 
+  return (
+    <aside className="fixed top-0 right-0 h-full w-80 z-20 overflow-y-auto border-l border-gray-300 shadow-lg px-6 py-8 font-serif" style={{ background: '#fffff8' }}>
+      <div className="flex justify-between items-baseline mb-1">
+        <h2 className="text-base text-gray-800">{selection.label}</h2>
+        <button type="button" onClick={onClose} className="text-xs text-gray-400 hover:text-gray-800">close</button>
+      </div>
+      <div className="text-xs text-gray-500 italic mb-6">{selection.detail}</div>
+      {rows.length === 0 ? (
+        <div className="text-sm text-gray-500 italic">No people recorded for this selection.</div>
+      ) : (
+        <ul className="space-y-1.5 text-sm text-gray-700">
+          {rows.map(({ id, person }) => (
+            <li key={id} className="flex justify-between items-baseline">
+              <Link href={`/people/${id}`} className="hover:text-gray-900 hover:underline underline-offset-2">{person?.Name ?? id}</Link>
+              {person && <span className="text-xs text-gray-400 italic ml-3">{person.Status}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
+
+function download(blob: Blob, extension: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `pipeline-sankey-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  link.click();
+  // Revoking right away can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,43 @@
+'use client';
+import * as d3 from 'd3';
+import { TONES } from '@/lib/funnelConfig';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  partialLast?: boolean;   // Last value is a period still in progress
+  label?: string;
+}
+
+// Tufte sparkline: a word-sized line with no axes, the high point marked
+// and the latest complete value as a dot. An in-progress last period is dotted.
+export default function Sparkline({ values, width = 96, height = 20, partialLast = true, label }: SparklineProps) {
+  if (values.length < 2) return null;
+
+  const pad = 2;
+  const x = d3.scaleLinear().domain([0, values.length - 1]).range([pad, width - pad]);
+  const y = d3.scaleLinear().domain([0, Math.max(1, d3.max(values) ?? 0)]).range([height - pad, pad]);
+  const line = d3.line<number>().x((_, i) => x(i)).y(v => y(v));
+
+  const complete = partialLast ? values.slice(0, -1) : values;
+  const lastIndex = complete.length - 1;
+  const peak = complete.indexOf(Math.max(...complete));
+
+  return (
+    <svg width={width} height={height} role="img" aria-label={label ?? `Trend: ${values.join(', ')}`} className="inline-block align-middle">
+      <path d={line(complete) ?? ''} fill="none" stroke="#999" strokeWidth={1} />
+      {partialLast && (
+        <path
+          d={d3.line<number>().x((_, i) => x(lastIndex + i)).y(v => y(v))(values.slice(-2)) ?? ''}
+          fill="none"
+          stroke="#999"
+          strokeWidth={1}
+          strokeDasharray="1 2"
+        />
+      )}
+      {peak !== lastIndex && <circle cx={x(peak)} cy={y(complete[peak])} r={1.5} fill={TONES.success.color} />}
+      <circle cx={x(lastIndex)} cy={y(complete[lastIndex])} r={2} fill={TONES.closed.color} />
+    </svg>
+  );
+}
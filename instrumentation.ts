@@ -0,0 +1,13 @@
+// Next.js calls register() once per server start
+export async function register() {
+  // Checked inline so the edge bundle drops the fs-backed snapshot store
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const minutes = Number(process.env.SNAPSHOT_INTERVAL_MINUTES);
+    if (!minutes || minutes <= 0) return;
+
+    const { recordSnapshot } = await import('./lib/snapshots');
+    setInterval(() => {
+      recordSnapshot().catch(error => console.error('Error recording snapshot:', error));
+    }, minutes * 60 * 1000);
+  }
+}
@@ -1,4 +1,7 @@
-import Airtable from 'airtable';
+import Airtable, { type FieldSet, type Records } from 'airtable';
+import { createCache, withRateLimitRetry } from './cache';
+import type { NewFunnelEvent, PipelineDataSource, PersonFieldValue } from './dataSource';
+import { getFieldMaps, parseFunnelEvents, parsePeople, toColumns, toFunnelEvent, toPerson } from './records';
 
 // Lazy initialization to avoid build-time errors
 function getBase() {
@@ -8,9 +11,11 @@ function getBase() {
   if (!process.env.AIRTABLE_BASE_ID) {
     throw new Error('AIRTABLE_BASE_ID is not set');
   }
-  
+
   return new Airtable({
-    apiKey: process.env.AIRTABLE_ACCESS_TOKEN
+    apiKey: process.env.AIRTABLE_ACCESS_TOKEN,
+    // 429s are retried by withRateLimitRetry so the backoff is under our control
+    noRetryIfRateLimited: true,
   }).base(process.env.AIRTABLE_BASE_ID);
 }
 
@@ -25,30 +30,140 @@ function getFunnelEventsTable() {
   return getBase()('Funnel Events');
 }
 
-export async function getAllPeople() {
-  const records = await getPeopleTable().select().all();
+type AirtableRow = { id: string } & FieldSet;
+
+interface CachedRows {
+  rows: AirtableRow[];
+  checkedAt: number;    // When the last (full or incremental) fetch started
+  fullLoadAt: number;   // When the last full fetch started
+}
+
+const CACHE_TTL_MS = Number(process.env.AIRTABLE_CACHE_TTL_SECONDS ?? 30) * 1000;
+const CACHE_STALE_MS = Number(process.env.AIRTABLE_CACHE_STALE_SECONDS ?? 300) * 1000;
+// Incremental refreshes can't see deleted records, so reload everything this often
+const FULL_RELOAD_MS = 10 * 60 * 1000;
+// Overlap incremental windows to absorb clock skew and second-level precision
+const MODIFIED_OVERLAP_MS = 5 * 1000;
+
+function toRows(records: Records<FieldSet>): AirtableRow[] {
   return records.map(record => ({
     id: record.id,
     ...record.fields
   }));
 }
 
+// Load a table through the cache. After the first full load only records
+// whose LAST_MODIFIED_TIME() moved since the previous check are fetched and
+// merged in.
+function createTableCache(
+  key: string,
+  fetchRecords: (filterByFormula?: string) => Promise<Records<FieldSet>>,
+  sortRows?: (rows: AirtableRow[]) => AirtableRow[]
+) {
+  return createCache<CachedRows>(key, async previous => {
+    const startedAt = Date.now();
+
+    if (!previous || startedAt - previous.fullLoadAt > FULL_RELOAD_MS) {
+      const rows = toRows(await withRateLimitRetry(() => fetchRecords()));
+      return { rows, checkedAt: startedAt, fullLoadAt: startedAt };
+    }
+
+    const since = new Date(previous.checkedAt - MODIFIED_OVERLAP_MS).toISOString();
+    const changed = toRows(await withRateLimitRetry(() =>
+      fetchRecords(`IS_AFTER(LAST_MODIFIED_TIME(), '${since}')`)
+    ));
+    if (changed.length === 0) {
+      return { ...previous, checkedAt: startedAt };
+    }
+
+    const byId = new Map(previous.rows.map(row => [row.id, row]));
+    changed.forEach(row => byId.set(row.id, row));
+    const rows = Array.from(byId.values());
+    return { rows: sortRows ? sortRows(rows) : rows, checkedAt: startedAt, fullLoadAt: previous.fullLoadAt };
+  }, { ttlMs: CACHE_TTL_MS, staleMs: CACHE_STALE_MS });
+}
+
+const peopleCache = createTableCache('people', filterByFormula =>
+  getPeopleTable().select(filterByFormula ? { filterByFormula } : {}).all()
+);
+
+const funnelEventsCache = createTableCache(
+  'funnel-events',
+  filterByFormula => getFunnelEventsTable().select({
+    sort: [{ field: getFieldMaps().funnelEvents['Changed At'], direction: 'asc' }],
+    ...(filterByFormula ? { filterByFormula } : {})
+  }).all(),
+  rows => {
+    const changedAt = getFieldMaps().funnelEvents['Changed At'];
+    return rows.sort((a, b) => String(a[changedAt]).localeCompare(String(b[changedAt])));
+  }
+);
+
+// Records that don't match the schema are left out here and reported by
+// getRecordIssues()
+export async function getAllPeople() {
+  return parsePeople((await peopleCache.get()).rows).records;
+}
+
 export async function getAllFunnelEvents() {
-  const records = await getFunnelEventsTable().select({
-    sort: [{ field: 'Changed At', direction: 'asc' }]
-  }).all();
-  return records.map(record => ({
-    id: record.id,
-    ...record.fields
-  }));
+  return parseFunnelEvents((await funnelEventsCache.get()).rows).records;
 }
 
-export async function updatePersonStatus(recordId: string, status: string) {
-  const record = await getPeopleTable().update(recordId, { Status: status });
-  return { id: record.id, ...record.fields };
+export async function getRecordIssues() {
+  const [people, events] = await Promise.all([peopleCache.get(), funnelEventsCache.get()]);
+  return [...parsePeople(people.rows).issues, ...parseFunnelEvents(events.rows).issues];
 }
 
-export async function updatePersonField(recordId: string, fieldName: string, value: string | number | boolean) {
-  const record = await getPeopleTable().update(recordId, { [fieldName]: value });
-  return { id: record.id, ...record.fields };
+// Reads straight from Airtable so validation sees the latest state
+export async function getPerson(recordId: string) {
+  try {
+    const record = await withRateLimitRetry(() => getPeopleTable().find(recordId));
+    return toPerson({ id: record.id, ...record.fields });
+  } catch (error) {
+    if ((error as { statusCode?: number })?.statusCode === 404) return null;
+    throw error;
+  }
 }
+
+export async function updatePerson(recordId: string, fields: Record<string, PersonFieldValue>) {
+  // Airtable clears a field when it is sent as null
+  const record = await withRateLimitRetry(() => getPeopleTable().update(recordId, toColumns('people', fields) as FieldSet));
+  peopleCache.invalidate();
+  return toPerson({ id: record.id, ...record.fields });
+}
+
+export async function createFunnelEvent(event: NewFunnelEvent) {
+  const fields: Record<string, string | string[]> = {
+    'From Status': event.fromStatus,
+    'To Status': event.toStatus,
+    'Changed At': event.changedAt,
+    'Lead': [event.leadId],
+  };
+  if (event.actor) fields['Changed By'] = event.actor;
+  if (event.note) fields['Note'] = event.note;
+
+  const record = await withRateLimitRetry(() => getFunnelEventsTable().create(toColumns('funnelEvents', fields)));
+  funnelEventsCache.invalidate();
+  return toFunnelEvent({ id: record.id, ...record.fields });
+}
+
+export async function updateFunnelEventLeads(recordId: string, leadIds: string[]) {
+  const record = await withRateLimitRetry(() => getFunnelEventsTable().update(recordId, toColumns('funnelEvents', { Lead: leadIds })));
+  funnelEventsCache.invalidate();
+  return toFunnelEvent({ id: record.id, ...record.fields });
+}
+
+export const airtableDataSource: PipelineDataSource = {
+  name: 'airtable',
+  listPeople: getAllPeople,
+  getPerson,
+  listFunnelEvents: getAllFunnelEvents,
+  createFunnelEvent,
+  updateFunnelEventLeads,
+  updatePerson,
+  listRecordIssues: getRecordIssues,
+  invalidateCache: () => {
+    peopleCache.invalidate();
+    funnelEventsCache.invalidate();
+  },
+};
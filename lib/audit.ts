@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Person, PersonField, PersonValue } from './records';
+
+// Append-only audit log of every field the app writes, one JSON object per
+// line (AUDIT_LOG_FILE, default ./data/audit.jsonl). Entries are never
+// rewritten; a revert is recorded as a new entry pointing at the original.
+
+export type AuditValue = NonNullable<PersonValue> | null;
+
+export interface AuditEntry {
+  id: string;
+  changeId: string;        // Shared by the fields written in one update
+  at: string;              // ISO timestamp of the write
+  actor: string | null;
+  recordId: string;
+  field: string;
+  oldValue: AuditValue;    // Read from the record before writing
+  newValue: AuditValue;    // As stored after the write
+  note?: string;
+  revertOf?: string;       // Entry this change reverted
+}
+
+export interface AuditQuery {
+  recordId?: string;
+  actor?: string;
+  field?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_LIMIT = 200;
+
+function getAuditFile() {
+  return process.env.AUDIT_LOG_FILE || path.join(process.cwd(), 'data', 'audit.jsonl');
+}
+
+// Missing and empty values count as the same
+export function sameAuditValue(a: PersonValue | null, b: PersonValue | null): boolean {
+  return (a || null) === (b || null);
+}
+
+// One entry per field whose stored value actually changed
+export function diffForAudit(
+  before: Person,
+  after: Person,
+  fields: PersonField[],
+  context: { actor?: string; note?: string; revertOf?: string }
+): AuditEntry[] {
+  const changeId = randomUUID();
+  const at = new Date().toISOString();
+  return fields
+    .map(field => ({ field, oldValue: before[field] || null, newValue: after[field] || null }))
+    .filter(change => !sameAuditValue(change.oldValue, change.newValue))
+    .map(change => ({
+      id: randomUUID(),
+      changeId,
+      at,
+      actor: context.actor ?? null,
+      recordId: after.id,
+      ...change,
+      ...(context.note ? { note: context.note } : {}),
+      ...(context.revertOf ? { revertOf: context.revertOf } : {}),
+    }));
+}
+
+export async function appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const file = getAuditFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+}
+
+async function readAuditEntries(): Promise<AuditEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(getAuditFile(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+// Newest first
+export async function listAuditEntries(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  const entries = await readAuditEntries();
+  return entries
+    .filter(entry =>
+      (!query.recordId || entry.recordId === query.recordId) &&
+      (!query.actor || entry.actor === query.actor) &&
+      (!query.field || entry.field === query.field) &&
+      (!query.from || new Date(entry.at) >= query.from) &&
+      (!query.to || new Date(entry.at) <= query.to)
+    )
+    .reverse()
+    .slice(0, query.limit ?? DEFAULT_AUDIT_LIMIT);
+}
+
+export async function getAuditEntry(id: string): Promise<AuditEntry | null> {
+  return (await readAuditEntries()).find(entry => entry.id === id) ?? null;
+}
+
+// Every field written by the same update
+export async function getAuditChange(changeId: string): Promise<AuditEntry[]> {
+  return (await readAuditEntries()).filter(entry => entry.changeId === changeId);
+}
+
+// Parse /api/audit query parameters; invalid values are reported in `errors`
+export function parseAuditQuery(params: URLSearchParams): { query: AuditQuery; errors: string[] } {
+  const query: AuditQuery = {};
+  const errors: string[] = [];
+
+  (['recordId', 'actor', 'field'] as const).forEach(key => {
+    const value = params.get(key);
+    if (value) query[key] = value;
+  });
+
+  (['from', 'to'] as const).forEach(key => {
+    const value = params.get(key);
+    if (!value) return;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) errors.push(`${key} must be a date`);
+    // A bare date as `to` includes that whole day
+    else query[key] = key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1) : date;
+  });
+
+  const limit = params.get('limit');
+  if (limit) {
+    const parsed = Number(limit);
+    if (Number.isInteger(parsed) && parsed > 0) query.limit = parsed;
+    else errors.push('limit must be a positive integer');
+  }
+
+  return { query, errors };
+}
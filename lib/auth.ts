@@ -0,0 +1,160 @@
+// Sessions, roles and route access rules. Runs in the middleware (edge
+// runtime) as well as in API routes, so it only uses Web Crypto.
+
+export const ROLES = ['viewer', 'recruiter', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface SessionUser {
+  username: string;
+  role: Role;
+}
+
+export const SESSION_COOKIE = 'pipeline_session';
+export const SESSION_HOURS = Number(process.env.AUTH_SESSION_HOURS ?? 12);
+
+// Set by the middleware on every request it lets through; incoming values
+// are overwritten so clients can't claim a role
+export const USER_HEADER = 'x-pipeline-user';
+export const ROLE_HEADER = 'x-pipeline-role';
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+// Roles are ordered: each one can do everything the previous ones can
+export function hasRole(user: SessionUser | null, role: Role): boolean {
+  return user !== null && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+// Without AUTH_SECRET the app runs open (local development only)
+export function isAuthEnabled(): boolean {
+  return Boolean(process.env.AUTH_SECRET);
+}
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+interface AccessRule {
+  path: RegExp;
+  methods?: string[];   // All methods when omitted
+  role: Role | 'public';
+  // Secret that also grants access as "Authorization: Bearer <secret>", for
+  // scheduled jobs without a session. Read through a function so the env
+  // var is referenced statically, which the edge runtime needs.
+  cronSecret?: () => string | undefined;
+}
+
+// First match wins; everything else needs a signed-in viewer
+const ACCESS_RULES: AccessRule[] = [
+  { path: /^\/login$/, role: 'public' },
+  { path: /^\/api\/auth\/(login|logout)$/, role: 'public' },
+  // Verified by its own HMAC signature
+  { path: /^\/api\/webhooks\/airtable$/, role: 'public' },
+  { path: /^\/admin(\/|$)/, role: 'admin' },
+  { path: /^\/api\/auth\/users(\/|$)/, role: 'admin' },
+  { path: /^\/api\/funnel-config$/, role: 'admin' },
+  { path: /^\/api\/snapshots$/, methods: ['POST'], role: 'admin' },
+  { path: /^\/api\/people(\/|$)/, methods: WRITE_METHODS, role: 'recruiter' },
+  { path: /^\/api\/export\/people$/, role: 'recruiter' },
+  { path: /^\/api\/alerts\/digest$/, role: 'recruiter', cronSecret: () => process.env.ALERTS_CRON_SECRET },
+  { path: /^\/api\/audit(\/|$)/, role: 'recruiter' },
+  { path: /^\/(api\/)?data-quality(\/|$)/, role: 'recruiter' },
+  { path: /^\/(api\/)?duplicates(\/|$)/, role: 'recruiter' },
+];
+
+function findRule(pathname: string, method: string): AccessRule | undefined {
+  return ACCESS_RULES.find(r => r.path.test(pathname) && (!r.methods || r.methods.includes(method)));
+}
+
+export function requiredRole(pathname: string, method: string): Role | 'public' {
+  return findRule(pathname, method)?.role ?? 'viewer';
+}
+
+// Recorded as the actor of requests made with a rule's cron secret
+export const CRON_ACTOR = 'cron';
+
+// Whether the request carries the cron secret of the rule it matches
+export async function hasCronSecret(pathname: string, method: string, authorization: string | null): Promise<boolean> {
+  const secret = findRule(pathname, method)?.cronSecret?.();
+  if (!secret || !authorization?.startsWith('Bearer ')) return false;
+
+  // Digests have equal lengths, so the comparison below is constant-time
+  const digest = async (text: string) => new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+  const [expected, received] = await Promise.all([digest(secret), digest(authorization.slice('Bearer '.length))]);
+  let diff = 0;
+  expected.forEach((byte, i) => { diff |= byte ^ received[i]; });
+  return diff === 0;
+}
+
+function base64url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function hmac(data: string): Promise<Uint8Array> {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new Error('AUTH_SECRET is not set');
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+}
+
+// "<payload>.<signature>", both base64url. The role is part of the signed
+// payload, so role changes apply from the user's next sign-in, and a
+// deleted user's session stays valid until it expires (SESSION_HOURS);
+// rotate AUTH_SECRET to sign everyone out at once.
+export async function createSessionToken(user: SessionUser, now: Date = new Date()): Promise<string> {
+  const payload = base64url(new TextEncoder().encode(JSON.stringify({
+    username: user.username,
+    role: user.role,
+    exp: now.getTime() + SESSION_HOURS * 60 * 60 * 1000,
+  })));
+  return `${payload}.${base64url(await hmac(payload))}`;
+}
+
+export async function verifySessionToken(token: string | undefined, now: Date = new Date()): Promise<SessionUser | null> {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const expected = await hmac(payload);
+    const received = fromBase64url(signature);
+    // Constant-time comparison
+    let diff = expected.length ^ received.length;
+    expected.forEach((byte, i) => { diff |= byte ^ (received[i] ?? 0); });
+    if (diff !== 0) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64url(payload)));
+    if (typeof session.username !== 'string' || !isRole(session.role)) return null;
+    if (typeof session.exp !== 'number' || session.exp < now.getTime()) return null;
+    return { username: session.username, role: session.role };
+  } catch {
+    return null;
+  }
+}
+
+// Who to record as the author of a change: the signed-in user, or nobody
+// when auth is disabled (the request body may then name an actor)
+export function getRequestActor(request: Request): string | undefined {
+  return isAuthEnabled() ? getRequestUser(request)?.username : undefined;
+}
+
+// The signed-in user as passed on by the middleware. With auth disabled
+// everyone acts as an admin.
+export function getRequestUser(request: Request): SessionUser | null {
+  if (!isAuthEnabled()) return { username: 'local', role: 'admin' };
+  const username = request.headers.get(USER_HEADER);
+  const role = request.headers.get(ROLE_HEADER);
+  return username && isRole(role) ? { username, role } : null;
+}
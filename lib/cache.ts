@@ -0,0 +1,108 @@
+// In-process stale-while-revalidate cache shared by all API routes.
+// State lives on globalThis so every route bundle (and dev hot reloads)
+// sees the same entries.
+
+export interface CacheOptions {
+  ttlMs: number;    // Served as fresh for this long
+  staleMs: number;  // Then served stale while a background refresh runs
+}
+
+export interface Cache<T> {
+  get(): Promise<T>;
+  invalidate(): void;
+}
+
+interface CacheState<T> {
+  value?: T;
+  fetchedAt?: number;
+  pending?: Promise<T>;
+  generation: number;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __pipelineCache?: Map<string, CacheState<unknown>>;
+};
+
+function getState<T>(key: string): CacheState<T> {
+  if (!globalStore.__pipelineCache) globalStore.__pipelineCache = new Map();
+  let state = globalStore.__pipelineCache.get(key);
+  if (!state) {
+    state = { generation: 0 };
+    globalStore.__pipelineCache.set(key, state);
+  }
+  return state as CacheState<T>;
+}
+
+// `load` receives the previous value so it can refresh incrementally
+export function createCache<T>(
+  key: string,
+  load: (previous: T | undefined) => Promise<T>,
+  options: CacheOptions
+): Cache<T> {
+  function refresh(): Promise<T> {
+    const state = getState<T>(key);
+    if (state.pending) return state.pending;
+
+    const generation = state.generation;
+    const startedAt = Date.now();
+    const pending = load(state.value)
+      .then(value => {
+        // Drop results that raced with an invalidation
+        if (state.generation === generation) {
+          state.value = value;
+          state.fetchedAt = startedAt;
+        }
+        return value;
+      })
+      .finally(() => {
+        if (state.pending === pending) state.pending = undefined;
+      });
+    state.pending = pending;
+    return pending;
+  }
+
+  return {
+    async get() {
+      const state = getState<T>(key);
+      if (state.value === undefined || state.fetchedAt === undefined) return refresh();
+
+      const age = Date.now() - state.fetchedAt;
+      if (age < options.ttlMs) return state.value;
+
+      if (age < options.ttlMs + options.staleMs) {
+        refresh().catch(error => console.error(`Error refreshing ${key} cache:`, error));
+        return state.value;
+      }
+
+      try {
+        return await refresh();
+      } catch (error) {
+        // Better an old pipeline than an error page (e.g. while rate limited)
+        console.error(`Error refreshing ${key} cache, serving stale data:`, error);
+        return state.value;
+      }
+    },
+
+    invalidate() {
+      const state = getState<T>(key);
+      state.value = undefined;
+      state.fetchedAt = undefined;
+      state.pending = undefined;
+      state.generation++;
+    },
+  };
+}
+
+// Retry a call that failed with HTTP 429, backing off exponentially with jitter
+export async function withRateLimitRetry<T>(fn: () => Promise<T>, retries = 4, baseDelayMs = 500): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const status = (error as { statusCode?: number })?.statusCode;
+      if (status !== 429 || attempt >= retries) throw error;
+      const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
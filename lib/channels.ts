@@ -0,0 +1,168 @@
+import { parseCloseClass } from './closeClass';
+import { CLOSE_STAGES, statusRank, STATUS_ROLES } from './funnelConfig';
+import type { FunnelEvent, Person } from './records';
+import { buildTimelines, durationBetween, percentile } from './velocity';
+
+// Source/Channel is free text in Airtable, so values are folded into
+// canonical channels before any counting. The first matching rule wins;
+// values no rule matches keep their own (whitespace- and case-folded) name.
+export interface ChannelRule {
+  channel: string;
+  match: RegExp[];
+}
+
+export const UNKNOWN_CHANNEL = 'Unknown';
+
+export const DEFAULT_CHANNEL_RULES: ChannelRule[] = [
+  { channel: 'Twitter/X', match: [/twitter/i, /^x(\.com)?$/i, /tweet/i] },
+  { channel: 'LinkedIn', match: [/linked\s*in/i] },
+  { channel: 'Hacker News', match: [/hacker\s*news/i, /^hn$/i, /ycombinator/i] },
+  { channel: 'Referral', match: [/referr?al/i, /referred/i, /word of mouth/i] },
+  { channel: 'GitHub outreach', match: [/github/i] },
+  { channel: 'Newsletter', match: [/newsletter/i, /substack/i] },
+];
+
+// CHANNEL_RULES may hold a JSON array of { channel, match: [regex, ...] }
+// replacing the defaults
+export function getChannelRules(): ChannelRule[] {
+  const raw = process.env.CHANNEL_RULES;
+  if (!raw) return DEFAULT_CHANNEL_RULES;
+
+  const parsed: unknown = JSON.parse(raw);
+  const valid = Array.isArray(parsed) && parsed.every(rule =>
+    rule && typeof rule.channel === 'string' && Array.isArray(rule.match) &&
+    rule.match.every((pattern: unknown) => typeof pattern === 'string')
+  );
+  if (!valid) {
+    throw new Error('CHANNEL_RULES must be a JSON array of { channel, match: [regex, ...] }');
+  }
+  return (parsed as { channel: string; match: string[] }[]).map(rule => ({
+    channel: rule.channel,
+    match: rule.match.map(pattern => new RegExp(pattern, 'i')),
+  }));
+}
+
+export function normalizeChannel(value: unknown, rules: ChannelRule[] = DEFAULT_CHANNEL_RULES): string {
+  const raw = Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : '';
+  const cleaned = raw.trim().replace(/\s+/g, ' ');
+  if (!cleaned || /^(n\/?a|none|unknown|-+)$/i.test(cleaned)) return UNKNOWN_CHANNEL;
+
+  const rule = rules.find(r => r.match.some(pattern => pattern.test(cleaned)));
+  if (rule) return rule.channel;
+  // "open source SLACK" and "Open Source Slack" count as one channel
+  return cleaned.toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+export interface ChannelStats {
+  channel: string;
+  rawValues: Record<string, number>;   // Source/Channel values folded into this channel
+  applications: number;
+  qualified: number;                   // Ever reached the qualified stage
+  onboarded: number;                   // Ever reached onboarding
+  qualificationRate: number | null;
+  onboardingRate: number | null;       // Onboarded / applications
+  medianDaysToOnboard: number | null;
+  byStatus: Record<string, number>;    // Where the channel's people are now
+  closeReasons: Record<string, number>; // Canonical Close Class, or "Unclassified"
+  personIds: string[];
+}
+
+// Furthest funnel stage a person is known to have reached, from their
+// current status, every non-closed status in their history and, for closed
+// people, the stage in their Close Class (as the Sankey places them)
+function furthestRank(person: Person, history: FunnelEvent[]): number {
+  const closeClass = person.Status === STATUS_ROLES.closed ? parseCloseClass(person['Close Class']) : null;
+  const closedAt = closeClass?.recognized ? CLOSE_STAGES.find(s => s.stage === closeClass.stage)?.reached : undefined;
+  const statuses = [person.Status, closedAt, ...history.flatMap(e => [e['From Status'], e['To Status']])]
+    .filter((status): status is string => !!status && status !== STATUS_ROLES.closed);
+  const ranks = statuses.map(statusRank).filter(rank => rank < statusRank(STATUS_ROLES.closed));
+  return ranks.length > 0 ? Math.max(...ranks) : -1;
+}
+
+export function computeChannelStats(
+  people: Person[],
+  events: FunnelEvent[],
+  rules: ChannelRule[] = DEFAULT_CHANNEL_RULES
+): ChannelStats[] {
+  const eventsByLead = new Map<string, FunnelEvent[]>();
+  events.forEach(event => {
+    const leadId = event.Lead?.[0];
+    if (!leadId) return;
+    const list = eventsByLead.get(leadId) || [];
+    list.push(event);
+    eventsByLead.set(leadId, list);
+  });
+  const timelines = buildTimelines(events, people);
+  const qualifiedRank = statusRank(STATUS_ROLES.qualified);
+  const onboardedRank = statusRank(STATUS_ROLES.onboarded);
+
+  const byChannel = new Map<string, ChannelStats & { daysToOnboard: number[] }>();
+  people.forEach(person => {
+    const channel = normalizeChannel(person['Source/Channel'], rules);
+    let stats = byChannel.get(channel);
+    if (!stats) {
+      stats = {
+        channel,
+        rawValues: {},
+        applications: 0,
+        qualified: 0,
+        onboarded: 0,
+        qualificationRate: null,
+        onboardingRate: null,
+        medianDaysToOnboard: null,
+        byStatus: {},
+        closeReasons: {},
+        personIds: [],
+        daysToOnboard: [],
+      };
+      byChannel.set(channel, stats);
+    }
+
+    const raw = typeof person['Source/Channel'] === 'string' ? person['Source/Channel'] : '';
+    stats.rawValues[raw] = (stats.rawValues[raw] || 0) + 1;
+    stats.applications++;
+    stats.personIds.push(person.id);
+    stats.byStatus[person.Status] = (stats.byStatus[person.Status] || 0) + 1;
+
+    const reached = furthestRank(person, eventsByLead.get(person.id) || []);
+    if (reached >= qualifiedRank) stats.qualified++;
+    if (reached >= onboardedRank) stats.onboarded++;
+
+    if (person.Status === STATUS_ROLES.closed) {
+      const closeClass = parseCloseClass(person['Close Class']);
+      const reason = closeClass.recognized ? closeClass.label : 'Unclassified';
+      stats.closeReasons[reason] = (stats.closeReasons[reason] || 0) + 1;
+    }
+
+    const timeline = timelines.get(person.id);
+    const days = timeline ? durationBetween(timeline, STATUS_ROLES.unassessed, STATUS_ROLES.onboarded) : null;
+    if (days !== null) stats.daysToOnboard.push(days);
+  });
+
+  return Array.from(byChannel.values())
+    .map(({ daysToOnboard, ...stats }) => ({
+      ...stats,
+      qualificationRate: stats.applications > 0 ? stats.qualified / stats.applications : null,
+      onboardingRate: stats.applications > 0 ? stats.onboarded / stats.applications : null,
+      medianDaysToOnboard: percentile(daysToOnboard.sort((a, b) => a - b), 0.5),
+    }))
+    .sort((a, b) => b.applications - a.applications || a.channel.localeCompare(b.channel));
+}
+
+// Coarse outcome groups used for the per-channel stacked bars
+export const OUTCOME_BUCKETS = [
+  { bucket: 'Onboarded', tone: 'success' },
+  { bucket: 'In progress', tone: 'pending' },
+  { bucket: 'Unassessed', tone: 'unreviewed' },
+  { bucket: 'Closed', tone: 'closed' },
+] as const;
+
+export type OutcomeBucket = typeof OUTCOME_BUCKETS[number]['bucket'];
+
+export function outcomeBucket(status: string): OutcomeBucket {
+  if (status === STATUS_ROLES.closed) return 'Closed';
+  if (status === STATUS_ROLES.unassessed) return 'Unassessed';
+  const rank = statusRank(status);
+  if (rank >= statusRank(STATUS_ROLES.onboarded) && rank < statusRank(STATUS_ROLES.closed)) return 'Onboarded';
+  return 'In progress';
+}
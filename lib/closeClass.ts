@@ -0,0 +1,60 @@
+import { CLOSE_ACTORS, CLOSE_STAGES, DUPLICATE_CLOSE_ACTOR, STATUS_ROLES } from './funnelConfig';
+
+export interface ParsedCloseClass {
+  recognized: true;
+  actor: string;    // Who closed, e.g. "Withdrew"
+  stage: string;    // Where in the funnel, e.g. "After Call"
+  label: string;    // Canonical "Withdrew — After Call"
+}
+
+export interface UnrecognizedCloseClass {
+  recognized: false;
+  raw: string;
+  reason: string;
+}
+
+export type CloseClass = ParsedCloseClass | UnrecognizedCloseClass;
+
+export function formatCloseClass(actor: string, stage: string): string {
+  return `${actor} — ${stage}`;
+}
+
+// Every valid combination, for pickers. Duplicates are closed by merging
+// on /duplicates, which also moves their funnel events.
+export const CLOSE_CLASS_OPTIONS = CLOSE_ACTORS
+  .filter(a => a.actor !== DUPLICATE_CLOSE_ACTOR)
+  .flatMap(a => CLOSE_STAGES.map(s => formatCloseClass(a.actor, s.stage)));
+
+function matchAlias<T extends { aliases: readonly string[] }>(definitions: readonly T[], text: string): T | undefined {
+  const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  return definitions.find(d => d.aliases.includes(normalized));
+}
+
+// Parse "<actor> — <stage>"; em dash, en dash and spaced hyphen all separate
+export function parseCloseClass(value: unknown): CloseClass {
+  const raw = typeof value === 'string' ? value.trim() : '';
+  if (!raw) return { recognized: false, raw, reason: 'Close Class is empty' };
+
+  const parts = raw.split(/\s*[—–]\s*|\s+-\s+/);
+  if (parts.length !== 2) {
+    return { recognized: false, raw, reason: 'Expected "<who closed> — <stage>"' };
+  }
+
+  const actor = matchAlias(CLOSE_ACTORS, parts[0]);
+  const stage = matchAlias(CLOSE_STAGES, parts[1]);
+  if (!actor) {
+    return { recognized: false, raw, reason: `Unknown closer "${parts[0]}"; expected ${CLOSE_ACTORS.map(a => a.actor).join(', ')}` };
+  }
+  if (!stage) {
+    return { recognized: false, raw, reason: `Unknown stage "${parts[1]}"; expected ${CLOSE_STAGES.map(s => s.stage).join(', ')}` };
+  }
+
+  return { recognized: true, actor: actor.actor, stage: stage.stage, label: formatCloseClass(actor.actor, stage.stage) };
+}
+
+// Closed as a duplicate of another record by a merge
+export function isMergedDuplicate(person: { Status: string; 'Close Class'?: string }): boolean {
+  if (person.Status !== STATUS_ROLES.closed) return false;
+  const parsed = parseCloseClass(person['Close Class']);
+  return parsed.recognized && parsed.actor === DUPLICATE_CLOSE_ACTOR;
+}
@@ -0,0 +1,84 @@
+import { formatCloseClass, isMergedDuplicate, parseCloseClass } from './closeClass';
+import { CLOSE_ACTORS, CLOSE_STAGES, DUPLICATE_CLOSE_ACTOR, STATUS_ROLES } from './funnelConfig';
+import type { Person } from './records';
+
+export interface UnrecognizedClosure {
+  closeClass: string;   // Raw value, '' when missing
+  reason: string;
+  count: number;
+  personIds: string[];
+}
+
+// Closed people by who closed (rows) and at which stage (columns)
+export interface ClosureMatrix {
+  actors: string[];
+  stages: string[];
+  counts: Record<string, Record<string, number>>;  // counts[actor][stage]
+  actorTotals: Record<string, number>;
+  stageTotals: Record<string, number>;
+  total: number;          // All closed people, recognized or not
+  unrecognized: UnrecognizedClosure[];
+}
+
+// Merged duplicates aren't closures of a real applicant and are skipped
+export function computeClosureMatrix(people: Person[]): ClosureMatrix {
+  const actors = CLOSE_ACTORS.map(a => a.actor).filter(actor => actor !== DUPLICATE_CLOSE_ACTOR);
+  const stages = CLOSE_STAGES.map(s => s.stage);
+  const counts = Object.fromEntries(actors.map(actor => [actor, Object.fromEntries(stages.map(stage => [stage, 0]))]));
+  const actorTotals = Object.fromEntries(actors.map(actor => [actor, 0]));
+  const stageTotals = Object.fromEntries(stages.map(stage => [stage, 0]));
+  const unrecognized = new Map<string, UnrecognizedClosure>();
+
+  const closed = people.filter(p => p.Status === STATUS_ROLES.closed && !isMergedDuplicate(p));
+  closed.forEach(person => {
+    const parsed = parseCloseClass(person['Close Class']);
+    if (!parsed.recognized) {
+      const entry = unrecognized.get(parsed.raw) || { closeClass: parsed.raw, reason: parsed.reason, count: 0, personIds: [] };
+      entry.count++;
+      entry.personIds.push(person.id);
+      unrecognized.set(parsed.raw, entry);
+      return;
+    }
+    counts[parsed.actor][parsed.stage]++;
+    actorTotals[parsed.actor]++;
+    stageTotals[parsed.stage]++;
+  });
+
+  return {
+    actors,
+    stages,
+    counts,
+    actorTotals,
+    stageTotals,
+    total: closed.length,
+    unrecognized: Array.from(unrecognized.values()).sort((a, b) => b.count - a.count),
+  };
+}
+
+export interface ClosureRow {
+  actor: string;
+  stage: string;
+  closeClass: string;
+  count: number;
+  share: number; // Fraction of all closed people
+}
+
+// Flat rows for exports; unrecognized values keep their raw Close Class
+export function closureRows(matrix: ClosureMatrix): ClosureRow[] {
+  const share = (count: number) => (matrix.total > 0 ? count / matrix.total : 0);
+  const rows: ClosureRow[] = matrix.actors.flatMap(actor => matrix.stages.map(stage => ({
+    actor,
+    stage,
+    closeClass: formatCloseClass(actor, stage),
+    count: matrix.counts[actor][stage],
+    share: share(matrix.counts[actor][stage]),
+  })));
+  matrix.unrecognized.forEach(entry => rows.push({
+    actor: '',
+    stage: '',
+    closeClass: entry.closeClass,
+    count: entry.count,
+    share: share(entry.count),
+  }));
+  return rows.filter(row => row.count > 0);
+}
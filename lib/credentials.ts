@@ -0,0 +1,126 @@
+import { createHash, randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { isRole, type Role, type SessionUser } from './auth';
+import { HttpError } from './errors';
+
+// Local credentials store: a JSON file of users with scrypt password hashes
+// (AUTH_USERS_FILE, default ./data/users.json). Works offline; admins
+// manage it from /admin. Until the file has an admin, AUTH_ADMIN_PASSWORD
+// lets "admin" sign in to create the first accounts.
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const BOOTSTRAP_ADMIN = 'admin';
+
+interface StoredUser {
+  username: string;
+  role: Role;
+  passwordHash: string;   // scrypt$<salt>$<hash>, base64
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UserInfo = Omit<StoredUser, 'passwordHash'>;
+
+function getUsersFile() {
+  return process.env.AUTH_USERS_FILE || path.join(process.cwd(), 'data', 'users.json');
+}
+
+async function readUsers(): Promise<StoredUser[]> {
+  try {
+    return JSON.parse(await fs.readFile(getUsersFile(), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function writeUsers(users: StoredUser[]): Promise<void> {
+  const file = getUsersFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(users, null, 2));
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function toInfo(user: StoredUser): UserInfo {
+  return { username: user.username, role: user.role, createdAt: user.createdAt, updatedAt: user.updatedAt };
+}
+
+export async function listUsers(): Promise<UserInfo[]> {
+  return (await readUsers()).map(toInfo);
+}
+
+export async function verifyCredentials(username: string, password: string): Promise<SessionUser | null> {
+  const users = await readUsers();
+  const user = users.find(u => u.username === username);
+  if (user) {
+    return (await checkPassword(password, user.passwordHash)) ? { username: user.username, role: user.role } : null;
+  }
+
+  const bootstrapPassword = process.env.AUTH_ADMIN_PASSWORD;
+  const hasAdmin = users.some(u => u.role === 'admin');
+  if (!hasAdmin && bootstrapPassword && username === BOOTSTRAP_ADMIN) {
+    // Digests have equal lengths whatever the passwords' encoding
+    const digest = (text: string) => createHash('sha256').update(text).digest();
+    const matches = timingSafeEqual(digest(password), digest(bootstrapPassword));
+    return matches ? { username: BOOTSTRAP_ADMIN, role: 'admin' } : null;
+  }
+  return null;
+}
+
+// Create a user, or change an existing user's role and/or password
+export async function saveUser(input: { username?: unknown; role?: unknown; password?: unknown }): Promise<UserInfo> {
+  const errors: string[] = [];
+  const username = typeof input.username === 'string' ? input.username.trim() : '';
+  if (!/^[\w.@-]{2,64}$/.test(username)) errors.push('username must be 2-64 letters, digits or . _ @ -');
+  if (!isRole(input.role)) errors.push('role must be viewer, recruiter or admin');
+  if (input.password !== undefined && (typeof input.password !== 'string' || input.password.length < 10)) {
+    errors.push('password must be at least 10 characters');
+  }
+
+  const users = await readUsers();
+  const existing = users.find(u => u.username === username);
+  const passwordHash = typeof input.password === 'string' ? await hashPassword(input.password) : existing?.passwordHash;
+  if (!passwordHash) errors.push('password is required for a new user');
+  if (existing?.role === 'admin' && input.role !== 'admin' && !users.some(u => u.role === 'admin' && u.username !== username)) {
+    errors.push('cannot remove the admin role from the last admin');
+  }
+  if (errors.length > 0 || !passwordHash) throw new HttpError(400, 'Invalid user', errors);
+
+  const now = new Date().toISOString();
+  const user: StoredUser = {
+    username,
+    role: input.role as Role,
+    passwordHash,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await writeUsers([...users.filter(u => u.username !== username), user]);
+  return toInfo(user);
+}
+
+export async function deleteUser(username: string): Promise<void> {
+  const users = await readUsers();
+  const remaining = users.filter(u => u.username !== username);
+  if (remaining.length === users.length) throw new HttpError(404, `User ${username} not found`);
+  if (users.some(u => u.role === 'admin') && !remaining.some(u => u.role === 'admin')) {
+    throw new HttpError(400, 'Cannot remove the last admin');
+  }
+  await writeUsers(remaining);
+}
@@ -0,0 +1,211 @@
+import { isMergedDuplicate } from './closeClass';
+import { getDataSource } from './dataSource';
+import { HttpError } from './errors';
+import { STATUS_ROLES } from './funnelConfig';
+import { recordStatusChange } from './funnelEvents';
+import type { FunnelEvent, Person, RecordIssue, RecordTable } from './records';
+
+// Consistency checks across People and Funnel Events. Each rule reports the
+// records that break it; rules with an obvious repair also name a fix that
+// /api/data-quality/fix can apply.
+
+export type DataQualityRuleId =
+  | 'schema'
+  | 'closed-without-close-class'
+  | 'status-mismatch'
+  | 'orphaned-event'
+  | 'duplicate-email'
+  | 'event-before-created';
+
+export interface Violation {
+  rule: DataQualityRuleId;
+  table: RecordTable;
+  recordId: string;
+  personId?: string;       // Person page to link to, when there is one
+  message: string;
+  fix?: string;            // Label of the fix-it action, if the fix is obvious
+}
+
+export interface RuleReport {
+  id: DataQualityRuleId;
+  label: string;
+  description: string;
+  violations: Violation[];
+}
+
+interface CheckInput {
+  people: Person[];
+  events: FunnelEvent[];
+  issues: RecordIssue[];
+}
+
+interface FixContext {
+  actor?: string;
+}
+
+interface Rule {
+  id: DataQualityRuleId;
+  label: string;
+  description: string;
+  check(input: CheckInput): Omit<Violation, 'rule' | 'fix'>[];
+  // Repair one violating record
+  fix?: { label: string; apply(recordId: string, input: CheckInput, context: FixContext): Promise<void> };
+}
+
+function time(value: string | undefined): number {
+  return value ? new Date(value).getTime() : NaN;
+}
+
+// Each person's most recent funnel event
+function lastEvents(events: FunnelEvent[]): Map<string, FunnelEvent> {
+  const last = new Map<string, FunnelEvent>();
+  [...events]
+    .sort((a, b) => time(a['Changed At']) - time(b['Changed At']))
+    .forEach(event => event.Lead?.forEach(id => last.set(id, event)));
+  return last;
+}
+
+const RULES: Rule[] = [
+  {
+    id: 'schema',
+    label: "Doesn't match the schema",
+    description: 'Records left out of every metric, or fields ignored, because a value is missing or has the wrong type.',
+    check: ({ issues }) => issues.map(issue => ({
+      table: issue.table,
+      recordId: issue.recordId,
+      personId: issue.table === 'people' && issue.recordId ? issue.recordId : undefined,
+      message: `${issue.field} ${issue.problem}${issue.recordDropped ? ' (record left out)' : ' (field ignored)'}`,
+    })),
+  },
+  {
+    id: 'closed-without-close-class',
+    label: 'Closed without a Close Class',
+    description: 'Closed people with no reason recorded are missing from the closure breakdown.',
+    check: ({ people }) => people
+      .filter(person => person.Status === STATUS_ROLES.closed && !person['Close Class'])
+      .map(person => ({ table: 'people', recordId: person.id, personId: person.id, message: `${person.Name} is Closed with no Close Class` })),
+  },
+  {
+    id: 'status-mismatch',
+    label: "Status doesn't match the last funnel event",
+    description: "The person's Status was changed without a funnel event, so journeys and time in stage are wrong.",
+    check: ({ people, events }) => {
+      const last = lastEvents(events);
+      return people.flatMap(person => {
+        const event = last.get(person.id);
+        if (!event || event['To Status'] === person.Status) return [];
+        return [{
+          table: 'people' as const,
+          recordId: person.id,
+          personId: person.id,
+          message: `${person.Name} is ${person.Status}, but the last event moved them to ${event['To Status']}`,
+        }];
+      });
+    },
+    fix: {
+      label: 'Record the missing transition',
+      async apply(recordId, { people, events }, context) {
+        const person = people.find(p => p.id === recordId);
+        const last = lastEvents(events).get(recordId);
+        if (!person || !last) return;
+        await recordStatusChange({
+          personId: person.id,
+          fromStatus: last['To Status'],
+          toStatus: person.Status,
+          actor: context.actor,
+          note: 'Recorded by data quality fix',
+        });
+      },
+    },
+  },
+  {
+    id: 'orphaned-event',
+    label: 'Event without a person',
+    description: "Funnel events that aren't linked to a person, or linked to one that no longer exists.",
+    check: ({ people, events, issues }) => {
+      // People left out by the schema check still exist
+      const known = new Set([...people.map(person => person.id), ...issues.filter(i => i.table === 'people').map(i => i.recordId)]);
+      return events.flatMap(event => {
+        const missing = (event.Lead ?? []).filter(id => !known.has(id));
+        if (event.Lead?.length && missing.length === 0) return [];
+        return [{
+          table: 'funnelEvents' as const,
+          recordId: event.id,
+          message: missing.length > 0
+            ? `${event['From Status']} → ${event['To Status']} links to deleted ${missing.join(', ')}`
+            : `${event['From Status']} → ${event['To Status']} isn't linked to a person`,
+        }];
+      });
+    },
+  },
+  {
+    id: 'duplicate-email',
+    label: 'Shared email',
+    description: 'People with the same email address (ignoring case) are probably one applicant entered twice. Merge them on the Duplicates page.',
+    check: ({ people }) => {
+      const byEmail = new Map<string, Person[]>();
+      people.filter(person => !isMergedDuplicate(person)).forEach(person => {
+        const email = person.Email?.trim().toLowerCase();
+        if (email) byEmail.set(email, [...(byEmail.get(email) ?? []), person]);
+      });
+      return Array.from(byEmail.entries())
+        .filter(([, group]) => group.length > 1)
+        .flatMap(([email, group]) => group.map(person => ({
+          table: 'people' as const,
+          recordId: person.id,
+          personId: person.id,
+          message: `${person.Name} shares ${email} with ${group.filter(other => other !== person).map(other => other.Name).join(', ')}`,
+        })));
+    },
+  },
+  {
+    id: 'event-before-created',
+    label: 'Event before the person was created',
+    description: "Funnel events dated before the person's Created date distort velocity and cohorts.",
+    check: ({ people, events }) => {
+      const created = new Map(people.filter(person => person.Created).map(person => [person.id, person]));
+      return events.flatMap(event => (event.Lead ?? []).flatMap(id => {
+        const person = created.get(id);
+        if (!person || time(event['Changed At']) >= time(person.Created)) return [];
+        return [{
+          table: 'funnelEvents' as const,
+          recordId: event.id,
+          personId: id,
+          message: `${event['From Status']} → ${event['To Status']} on ${event['Changed At'].slice(0, 10)} is before ${person.Name} was created (${person.Created?.slice(0, 10)})`,
+        }];
+      }));
+    },
+  },
+];
+
+export function runDataQualityChecks(input: CheckInput): RuleReport[] {
+  return RULES.map(rule => ({
+    id: rule.id,
+    label: rule.label,
+    description: rule.description,
+    violations: rule.check(input).map(violation => ({ rule: rule.id, ...violation, fix: rule.fix?.label })),
+  }));
+}
+
+// Re-run the rule against the current data and apply its fix to one record
+export async function applyDataQualityFix(ruleId: string, recordId: string, context: FixContext = {}): Promise<void> {
+  const rule = RULES.find(r => r.id === ruleId);
+  if (!rule) {
+    throw new HttpError(400, `Unknown rule ${ruleId}`);
+  }
+  if (!rule.fix) {
+    throw new HttpError(422, `"${rule.label}" has no automatic fix`);
+  }
+
+  const dataSource = getDataSource();
+  const [people, events, issues] = await Promise.all([
+    dataSource.listPeople(),
+    dataSource.listFunnelEvents(),
+    dataSource.listRecordIssues(),
+  ]);
+  const input = { people, events, issues };
+  if (!rule.check(input).some(violation => violation.recordId === recordId)) {
+    throw new HttpError(409, `${recordId} no longer breaks "${rule.label}"`);
+  }
+  await rule.fix.apply(recordId, input, context);
+}
@@ -0,0 +1,41 @@
+import { airtableDataSource } from './airtable';
+import { getLocalDataSource } from './localDataSource';
+import type { FunnelEvent, Person, RecordIssue } from './records';
+
+// null clears a field
+export type PersonFieldValue = string | number | boolean | null;
+
+export interface NewFunnelEvent {
+  leadId: string;
+  fromStatus: string;
+  toStatus: string;
+  changedAt: string;   // ISO timestamp
+  actor?: string;      // Stored as "Changed By"
+  note?: string;       // Stored as "Note"
+}
+
+// Everything the app needs from a pipeline backend
+export interface PipelineDataSource {
+  name: string;
+  listPeople(): Promise<Person[]>;
+  getPerson(id: string): Promise<Person | null>;
+  listFunnelEvents(): Promise<FunnelEvent[]>;
+  createFunnelEvent(event: NewFunnelEvent): Promise<FunnelEvent>;
+  // Replace the people a funnel event is linked to (used when merging)
+  updateFunnelEventLeads(id: string, leadIds: string[]): Promise<FunnelEvent>;
+  // Writes all fields in one update, so either all of them change or none do
+  updatePerson(id: string, fields: Record<string, PersonFieldValue>): Promise<Person>;
+  // Records left out or fields dropped because they don't match the schema
+  listRecordIssues(): Promise<RecordIssue[]>;
+  // Drop cached rows so the next read sees changes made outside the app
+  invalidateCache?(): void;
+}
+
+// PIPELINE_DATA_SOURCE=local runs from fixture files (or a synthetic
+// pipeline) instead of Airtable; anything else uses Airtable.
+export function getDataSource(): PipelineDataSource {
+  if (process.env.PIPELINE_DATA_SOURCE === 'local') {
+    return getLocalDataSource();
+  }
+  return airtableDataSource;
+}
@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { formatCloseClass, isMergedDuplicate, parseCloseClass } from './closeClass';
+import { getDataSource } from './dataSource';
+import { HttpError } from './errors';
+import { DUPLICATE_CLOSE_ACTOR, statusRank, STATUS_ROLES } from './funnelConfig';
+import { applyPersonUpdate, type ChangeContext } from './personUpdates';
+import { validatePersonUpdate, type PersonUpdate } from './personSchema';
+import type { FunnelEvent, Person, PersonField } from './records';
+
+// People who applied more than once: matched on normalized email, GitHub
+// handle or a close enough name. Reviewers merge a pair (keeping one record)
+// or dismiss it; dismissed pairs are stored in DUPLICATE_DISMISSALS_FILE
+// (default ./data/duplicate-dismissals.json).
+
+export type MatchReason = 'email' | 'github' | 'name';
+
+export interface DuplicateCandidate {
+  ids: [string, string];
+  people: [Person, Person];
+  reasons: MatchReason[];
+  nameSimilarity: number;     // 0-1
+  suggestedKeepId: string;
+}
+
+// Token-sorted names at least this similar count as a match
+const NAME_SIMILARITY_THRESHOLD = 0.88;
+
+// Fields copied from the duplicate when the kept record has none
+const FILL_FIELDS: PersonField[] = ['Email', 'GitHub Link', 'Role', 'Source/Channel'];
+
+// "Ada.Lovelace+jobs@GMail.com" and "adalovelace@gmail.com" are one inbox
+export function normalizeEmail(value: string | undefined): string | null {
+  const email = value?.trim().toLowerCase();
+  if (!email || !email.includes('@')) return null;
+  const [local, domain] = email.split('@');
+  const base = local.split('+')[0];
+  const gmail = domain === 'gmail.com' || domain === 'googlemail.com';
+  return `${gmail ? base.replace(/\./g, '') : base}@${gmail ? 'gmail.com' : domain}`;
+}
+
+// "https://github.com/AdaL/repo", "github.com/adal" and "@adal" -> "adal"
+export function githubHandle(value: string | undefined): string | null {
+  const text = value?.trim();
+  if (!text) return null;
+  const match = text.match(/github\.com\/([A-Za-z0-9-]+)/i) ?? text.match(/^@?([A-Za-z0-9-]+)$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+// Lowercased, accents and punctuation removed, words in alphabetical order
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join(':');
+}
+
+// Keep the record furthest along an open path, then the earliest application
+function preferredRecord(a: Person, b: Person): Person {
+  const closed = (p: Person) => p.Status === STATUS_ROLES.closed;
+  if (closed(a) !== closed(b)) return closed(a) ? b : a;
+  const rank = statusRank(b.Status) - statusRank(a.Status);
+  if (rank !== 0) return rank > 0 ? b : a;
+  const created = (p: Person) => (p.Created ? new Date(p.Created).getTime() : Infinity);
+  return created(b) < created(a) ? b : a;
+}
+
+export function findDuplicateCandidates(people: Person[], dismissed: Set<string> = new Set()): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+  const open = people
+    .filter(person => !isMergedDuplicate(person))
+    .map(person => ({
+      person,
+      email: normalizeEmail(person.Email),
+      github: githubHandle(person['GitHub Link']),
+    }));
+
+  open.forEach((left, i) => {
+    open.slice(i + 1).forEach(right => {
+      if (dismissed.has(pairKey(left.person.id, right.person.id))) return;
+      const similarity = nameSimilarity(left.person.Name, right.person.Name);
+      const reasons: MatchReason[] = [];
+      if (left.email && left.email === right.email) reasons.push('email');
+      if (left.github && left.github === right.github) reasons.push('github');
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) reasons.push('name');
+      if (reasons.length === 0) return;
+
+      candidates.push({
+        ids: [left.person.id, right.person.id],
+        people: [left.person, right.person],
+        reasons,
+        nameSimilarity: Math.round(similarity * 100) / 100,
+        suggestedKeepId: preferredRecord(left.person, right.person).id,
+      });
+    });
+  });
+
+  // Strongest evidence first
+  return candidates.sort((a, b) => b.reasons.length - a.reasons.length || b.nameSimilarity - a.nameSimilarity);
+}
+
+function getDismissalsFile() {
+  return process.env.DUPLICATE_DISMISSALS_FILE || path.join(process.cwd(), 'data', 'duplicate-dismissals.json');
+}
+
+export async function listDismissedPairs(): Promise<Set<string>> {
+  try {
+    return new Set(JSON.parse(await fs.readFile(getDismissalsFile(), 'utf8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Set();
+    throw error;
+  }
+}
+
+// Mark a pair as not the same person so it isn't suggested again
+export async function dismissPair(a: string, b: string): Promise<void> {
+  const dismissed = await listDismissedPairs();
+  dismissed.add(pairKey(a, b));
+  const file = getDismissalsFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(Array.from(dismissed).sort(), null, 2));
+}
+
+// Where the duplicate had got to, for its Close Class
+function duplicateStage(person: Person): string {
+  if (person.Status === STATUS_ROLES.closed) {
+    const parsed = parseCloseClass(person['Close Class']);
+    return parsed.recognized ? parsed.stage : 'Before Call';
+  }
+  if (statusRank(person.Status) >= statusRank(STATUS_ROLES.onboarded)) return 'After Onboarding';
+  return statusRank(person.Status) >= statusRank('Call Completed') ? 'After Call' : 'Before Call';
+}
+
+export interface MergeResult {
+  kept: Person;
+  duplicate: Person;
+  relinkedEvents: FunnelEvent[];
+  skippedFields: string[];   // Duplicate values that don't validate, left behind
+}
+
+// Legacy Airtable values may not pass the field schema: bare GitHub handles
+// become profile URLs, anything still invalid is skipped
+function fillValues(keep: Person, duplicate: Person): { fill: PersonUpdate; skippedFields: string[] } {
+  const fill: PersonUpdate = {};
+  const skippedFields: string[] = [];
+  FILL_FIELDS.filter(field => !keep[field] && duplicate[field]).forEach(field => {
+    let value = duplicate[field] as string;
+    const handle = field === 'GitHub Link' ? githubHandle(value) : null;
+    if (handle && !/^https?:\/\//i.test(value.trim())) value = `https://github.com/${handle}`;
+    const { fields, errors } = validatePersonUpdate({ [field]: value });
+    if (errors.length > 0) skippedFields.push(`${field} (${errors.join('; ')})`);
+    else Object.assign(fill, fields);
+  });
+  return { fill, skippedFields };
+}
+
+// Merge `duplicateId` into `keepId`: fill the kept record's empty fields
+// from the duplicate, move the duplicate's funnel events onto the kept
+// record, then close the duplicate with a "Duplicate" Close Class. Person
+// changes go through applyPersonUpdate, so they are validated and audited.
+//
+// The duplicate is closed last, so a merge that stops part way still shows
+// as a candidate pair, and merging it again finishes the job: filled fields
+// are no longer empty and moved events no longer link to the duplicate.
+export async function mergePeople(keepId: string, duplicateId: string, context: ChangeContext = {}): Promise<MergeResult> {
+  if (keepId === duplicateId) {
+    throw new HttpError(400, 'Cannot merge a person into themselves');
+  }
+
+  const dataSource = getDataSource();
+  const [keep, duplicate] = await Promise.all([dataSource.getPerson(keepId), dataSource.getPerson(duplicateId)]);
+  if (!keep) throw new HttpError(404, `Person ${keepId} not found`);
+  if (!duplicate) throw new HttpError(404, `Person ${duplicateId} not found`);
+  if (isMergedDuplicate(keep)) throw new HttpError(409, `${keep.Name} was already merged into another record`);
+  if (isMergedDuplicate(duplicate)) throw new HttpError(409, `${duplicate.Name} was already merged into another record`);
+
+  const note = `Merged ${duplicateId} into ${keepId}`;
+  const { fill, skippedFields } = fillValues(keep, duplicate);
+  try {
+    const kept = Object.keys(fill).length > 0 ? await applyPersonUpdate(keepId, fill, { ...context, note }) : keep;
+
+    const relinkedEvents: FunnelEvent[] = [];
+    const events = (await dataSource.listFunnelEvents()).filter(event => event.Lead?.includes(duplicateId));
+    for (const event of events) {
+      const leadIds = Array.from(new Set(event.Lead?.map(id => (id === duplicateId ? keepId : id))));
+      relinkedEvents.push(await dataSource.updateFunnelEventLeads(event.id, leadIds));
+    }
+
+    const closed = await applyPersonUpdate(duplicateId, {
+      Status: STATUS_ROLES.closed,
+      'Close Class': formatCloseClass(DUPLICATE_CLOSE_ACTOR, duplicateStage(duplicate)),
+    }, { ...context, note });
+
+    return { kept, duplicate: closed, relinkedEvents, skippedFields };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new HttpError(
+      error instanceof HttpError ? error.status : 500,
+      `Merge stopped part way (${message}); merge the same pair again to finish it`,
+      error instanceof HttpError ? error.details : undefined
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+
+// An error that maps onto an HTTP response status
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: string[]
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function errorResponse(error: unknown) {
+  if (error instanceof HttpError) {
+    return NextResponse.json(
+      { error: error.message, ...(error.details ? { details: error.details } : {}) },
+      { status: error.status }
+    );
+  }
+  // Airtable still rate limiting once withRateLimitRetry has backed off
+  if ((error as { statusCode?: number })?.statusCode === 429) {
+    return NextResponse.json({ error: 'Airtable rate limit reached; try again shortly' }, { status: 429 });
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: message }, { status: 500 });
+}
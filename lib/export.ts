@@ -0,0 +1,102 @@
+import ExcelJS from 'exceljs';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type Cell = string | number | boolean | null | undefined | string[];
+
+// One table of an export; XLSX gets a worksheet per sheet
+export interface ExportSheet {
+  name: string;
+  columns: string[];
+  rows: Record<string, Cell>[];
+}
+
+export interface ExportFile {
+  body: string | ArrayBuffer;
+  contentType: string;
+  fileName: string;
+}
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly (string | null)[]).includes(value);
+}
+
+// Text starting with = + - @ would run as a formula in Excel or Sheets, and
+// names and notes come from applicants; a leading ' keeps it as text
+function guardFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+function cellText(value: Cell): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return guardFormula(value.join('; '));
+  if (typeof value === 'string') return guardFormula(value);
+  return String(value);
+}
+
+export function toCsv(sheet: ExportSheet): string {
+  const escape = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const lines = [
+    sheet.columns.map(escape).join(','),
+    ...sheet.rows.map(row => sheet.columns.map(column => escape(cellText(row[column]))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+async function toXlsx(sheets: ExportSheet[]): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  sheets.forEach(sheet => {
+    // Worksheet names are limited to 31 characters
+    const worksheet = workbook.addWorksheet(sheet.name.slice(0, 31));
+    worksheet.columns = sheet.columns.map(column => ({ header: column, key: column, width: Math.max(12, column.length + 2) }));
+    worksheet.getRow(1).font = { bold: true };
+    sheet.rows.forEach(row => {
+      worksheet.addRow(Object.fromEntries(sheet.columns.map(column => {
+        const value = row[column];
+        return [column, typeof value === 'number' || typeof value === 'boolean' ? value : cellText(value)];
+      })));
+    });
+  });
+  return await workbook.xlsx.writeBuffer() as ArrayBuffer;
+}
+
+// e.g. people-2025-10-19T14-05-09Z.csv
+export function exportFileName(base: string, format: ExportFormat, now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/:/g, '-');
+  return `${base}-${stamp}.${format}`;
+}
+
+// CSV holds a single sheet; JSON keys each sheet's rows by sheet name
+export async function buildExport(base: string, sheets: ExportSheet[], format: ExportFormat): Promise<ExportFile> {
+  const fileName = exportFileName(base, format);
+
+  if (format === 'csv') {
+    if (sheets.length !== 1) {
+      throw new Error('CSV exports hold exactly one table');
+    }
+    return { body: toCsv(sheets[0]), contentType: 'text/csv; charset=utf-8', fileName };
+  }
+
+  if (format === 'json') {
+    const body = sheets.length === 1
+      ? sheets[0].rows
+      : Object.fromEntries(sheets.map(sheet => [sheet.name, sheet.rows]));
+    return { body: JSON.stringify(body, null, 2), contentType: 'application/json', fileName };
+  }
+
+  return {
+    body: await toXlsx(sheets),
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    fileName,
+  };
+}
+
+export function exportResponseInit(file: ExportFile): ResponseInit {
+  return {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+    },
+  };
+}
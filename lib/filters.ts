@@ -0,0 +1,154 @@
+import { isMergedDuplicate } from './closeClass';
+import type { FunnelEvent, Person } from './records';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cohort selects people by Created date; the activity window selects funnel
+// events by Changed At. All dates are inclusive YYYY-MM-DD strings.
+export interface PipelineFilter {
+  cohortFrom?: string;
+  cohortTo?: string;
+  activityFrom?: string;
+  activityTo?: string;
+  activityDays?: number; // "last N days", takes precedence over activityFrom
+}
+
+const DATE_PARAMS = ['cohortFrom', 'cohortTo', 'activityFrom', 'activityTo'] as const;
+
+// Parse filter query parameters. Invalid values are dropped and reported in
+// `errors` so API routes can reject them while the UI simply ignores them.
+export function parsePipelineFilter(params: URLSearchParams): { filter: PipelineFilter; errors: string[] } {
+  const filter: PipelineFilter = {};
+  const errors: string[] = [];
+
+  DATE_PARAMS.forEach(key => {
+    const value = params.get(key);
+    if (!value) return;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime())) {
+      filter[key] = value;
+    } else {
+      errors.push(`${key} must be a YYYY-MM-DD date`);
+    }
+  });
+
+  const days = params.get('activityDays');
+  if (days) {
+    const parsed = Number(days);
+    if (Number.isInteger(parsed) && parsed > 0) {
+      filter.activityDays = parsed;
+    } else {
+      errors.push('activityDays must be a positive integer');
+    }
+  }
+
+  return { filter, errors };
+}
+
+export function filterToSearchParams(filter: PipelineFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  DATE_PARAMS.forEach(key => {
+    if (filter[key]) params.set(key, filter[key]);
+  });
+  if (filter.activityDays) params.set('activityDays', String(filter.activityDays));
+  return params;
+}
+
+export function hasCohortFilter(filter: PipelineFilter): boolean {
+  return Boolean(filter.cohortFrom || filter.cohortTo);
+}
+
+export function hasActivityFilter(filter: PipelineFilter): boolean {
+  return Boolean(filter.activityFrom || filter.activityTo || filter.activityDays);
+}
+
+export function isFilterActive(filter: PipelineFilter): boolean {
+  return hasCohortFilter(filter) || hasActivityFilter(filter);
+}
+
+export function activityRange(filter: PipelineFilter, now: Date = new Date()): { start?: Date; end?: Date } {
+  const start = filter.activityDays
+    ? new Date(now.getTime() - filter.activityDays * DAY_MS)
+    : startOfDay(filter.activityFrom);
+  return { start, end: endOfDay(filter.activityTo) };
+}
+
+export function isInCohort(person: Person, filter: PipelineFilter): boolean {
+  if (!hasCohortFilter(filter)) return true;
+  if (typeof person.Created !== 'string') return false;
+  return isWithin(new Date(person.Created), startOfDay(filter.cohortFrom), endOfDay(filter.cohortTo));
+}
+
+// Events inside the activity window, restricted to the cohort when people are known
+export function filterEvents<E extends FunnelEvent>(events: E[], filter: PipelineFilter, people?: Person[]): E[] {
+  const { start, end } = activityRange(filter);
+  const cohortIds = people && hasCohortFilter(filter)
+    ? new Set(people.filter(p => isInCohort(p, filter)).map(p => p.id))
+    : null;
+
+  return events.filter(event => {
+    if (cohortIds && !event.Lead?.some(id => cohortIds.has(id))) return false;
+    if (!start && !end) return true;
+    return isWithin(new Date(event['Changed At']), start, end);
+  });
+}
+
+// People in the cohort; with an activity window, only those who moved within it
+export function filterPeople<P extends Person>(people: P[], filter: PipelineFilter, events?: FunnelEvent[]): P[] {
+  const inCohort = people.filter(person => isInCohort(person, filter));
+  if (!events || !hasActivityFilter(filter)) return inCohort;
+
+  const activeIds = new Set(filterEvents(events, filter).flatMap(event => event.Lead || []));
+  return inCohort.filter(person => activeIds.has(person.id));
+}
+
+// Merged duplicates are always left out: the applicant is counted under
+// the record they were merged into, which also has their funnel events
+export function applyPipelineFilter<P extends Person, E extends FunnelEvent>(
+  allPeople: P[],
+  allEvents: E[],
+  filter: PipelineFilter
+): { people: P[]; events: E[] } {
+  const duplicateIds = new Set(allPeople.filter(isMergedDuplicate).map(person => person.id));
+  const people = duplicateIds.size > 0 ? allPeople.filter(person => !duplicateIds.has(person.id)) : allPeople;
+  const events = duplicateIds.size > 0
+    ? allEvents.filter(event => !event.Lead?.length || !event.Lead.every(id => duplicateIds.has(id)))
+    : allEvents;
+
+  if (!isFilterActive(filter)) return { people, events };
+  return {
+    people: filterPeople(people, filter, events),
+    events: filterEvents(events, filter, people),
+  };
+}
+
+function isWithin(date: Date, start?: Date, end?: Date): boolean {
+  if (Number.isNaN(date.getTime())) return false;
+  if (start && date < start) return false;
+  if (end && date > end) return false;
+  return true;
+}
+
+function startOfDay(value?: string): Date | undefined {
+  return value ? new Date(`${value}T00:00:00.000Z`) : undefined;
+}
+
+function endOfDay(value?: string): Date | undefined {
+  return value ? new Date(`${value}T23:59:59.999Z`) : undefined;
+}
+
+// Search box and status dropdown of the /table view, shared with its exports
+export interface TableFilter {
+  search?: string;
+  status?: string; // 'All' or empty matches every status
+}
+
+export function filterPeopleTable<P extends Person>(people: P[], { search = '', status = 'All' }: TableFilter): P[] {
+  const query = search.toLowerCase();
+  return people.filter(p => {
+    const matchesSearch = query === '' ||
+      String(p.Name ?? '').toLowerCase().includes(query) ||
+      String(p.Email ?? '').toLowerCase().includes(query);
+    const matchesStatus = !status || status === 'All' || p.Status === status;
+    return matchesSearch && matchesStatus;
+  });
+}
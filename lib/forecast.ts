@@ -0,0 +1,301 @@
+import { statusRank, STATUSES, STATUS_ROLES } from './funnelConfig';
+import type { FunnelEvent, Person } from './records';
+import { buildTimelines, durationBetween, percentile, type TimelineEntry } from './velocity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two-sided 80% interval of a normal approximation
+const Z_80 = 1.2816;
+
+export const DEFAULT_FORECAST_TARGET = 100;
+export const DEFAULT_FORECAST_WINDOW_DAYS = 28;
+
+export interface ForecastConfig {
+  target: number;            // Developers to onboard
+  deadline: string | null;   // YYYY-MM-DD
+  windowDays: number;        // Recent period the throughput rate is measured over
+}
+
+export interface ThroughputForecast {
+  windowDays: number;
+  onboardingsInWindow: number;
+  perWeek: number;
+  projectedDate: string | null;  // null when nobody onboarded in the window
+  earliestDate: string | null;
+  latestDate: string | null;     // null when the low end of the rate is zero
+}
+
+export interface PipelineStage {
+  status: string;
+  people: number;                      // Currently in this status
+  conversion: number | null;           // Share of resolved past visitors who went on to onboard
+  resolved: number;                    // Past visitors who onboarded or were closed
+  medianDaysToOnboard: number | null;
+  expected: number;
+}
+
+export interface PipelineForecast {
+  stages: PipelineStage[];
+  expected: number;                    // Onboardings expected from people already in the funnel
+  low: number;
+  high: number;
+  shortfall: number;                   // Still missing after the expected conversions
+  projectedDate: string | null;        // When expected conversions cover the remainder
+}
+
+export interface BurnUpPoint {
+  date: string;
+  onboarded: number;
+}
+
+export interface ProjectionPoint {
+  date: string;
+  expected: number;
+  low: number;
+  high: number;
+}
+
+export interface Forecast {
+  generatedAt: string;
+  target: number;
+  deadline: string | null;
+  onboarded: number;
+  remaining: number;
+  requiredPerWeek: number | null;      // To reach the target by the deadline
+  onTrack: boolean | null;             // Throughput projection lands by the deadline
+  throughput: ThroughputForecast;
+  pipeline: PipelineForecast;
+  actual: BurnUpPoint[];               // Weekly cumulative onboardings
+  projection: ProjectionPoint[];       // Weekly, from today at the throughput rate
+}
+
+// FORECAST_TARGET, FORECAST_DEADLINE and FORECAST_WINDOW_DAYS override the
+// defaults; invalid values fail loudly rather than skewing the projection
+export function getForecastConfig(): ForecastConfig {
+  const { config, errors } = parseForecastConfig(
+    {
+      target: process.env.FORECAST_TARGET,
+      deadline: process.env.FORECAST_DEADLINE,
+      windowDays: process.env.FORECAST_WINDOW_DAYS,
+    },
+    { target: DEFAULT_FORECAST_TARGET, deadline: null, windowDays: DEFAULT_FORECAST_WINDOW_DAYS }
+  );
+  if (errors.length > 0) {
+    throw new Error(`Invalid forecast settings: ${errors.join('; ')}`);
+  }
+  return config;
+}
+
+// Overlay raw values (env vars or query parameters) on a base config
+export function parseForecastConfig(
+  values: { target?: string | null; deadline?: string | null; windowDays?: string | null },
+  base: ForecastConfig
+): { config: ForecastConfig; errors: string[] } {
+  const config = { ...base };
+  const errors: string[] = [];
+
+  if (values.target) {
+    const target = Number(values.target);
+    if (Number.isInteger(target) && target > 0) config.target = target;
+    else errors.push('target must be a positive integer');
+  }
+  if (values.deadline) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(values.deadline) && !Number.isNaN(new Date(values.deadline).getTime())) {
+      config.deadline = values.deadline;
+    } else {
+      errors.push('deadline must be a YYYY-MM-DD date');
+    }
+  }
+  if (values.windowDays) {
+    const windowDays = Number(values.windowDays);
+    if (Number.isInteger(windowDays) && windowDays > 0) config.windowDays = windowDays;
+    else errors.push('windowDays must be a positive integer');
+  }
+
+  return { config, errors };
+}
+
+// Onboarded or any later, still-open status
+export function countsTowardTarget(status: string): boolean {
+  const rank = statusRank(status);
+  return rank >= statusRank(STATUS_ROLES.onboarded) && rank < statusRank(STATUS_ROLES.closed);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// First time the person reached onboarding, if their history records it
+function onboardedAt(timeline: TimelineEntry[] | undefined): Date | null {
+  return timeline?.find(entry => countsTowardTarget(entry.status))?.enteredAt ?? null;
+}
+
+// Onboardings per day over the window, treating the count as Poisson
+function throughputRates(count: number, windowDays: number): { rate: number; low: number; high: number } {
+  const spread = Z_80 * Math.sqrt(count);
+  return {
+    rate: count / windowDays,
+    low: Math.max(0, count - spread) / windowDays,
+    high: (count + spread) / windowDays,
+  };
+}
+
+function forecastThroughput(
+  onboardingDates: Date[],
+  remaining: number,
+  windowDays: number,
+  now: Date
+): ThroughputForecast {
+  const windowStart = addDays(now, -windowDays);
+  const count = onboardingDates.filter(date => date > windowStart && date <= now).length;
+  const { rate, low: lowRate, high: highRate } = throughputRates(count, windowDays);
+  const dateAt = (perDay: number) => (perDay > 0 ? isoDate(addDays(now, remaining / perDay)) : null);
+
+  return {
+    windowDays,
+    onboardingsInWindow: count,
+    perWeek: rate * 7,
+    projectedDate: remaining === 0 ? isoDate(now) : dateAt(rate),
+    earliestDate: remaining === 0 ? isoDate(now) : dateAt(highRate),
+    latestDate: remaining === 0 ? isoDate(now) : dateAt(lowRate),
+  };
+}
+
+function forecastPipeline(
+  people: Person[],
+  timelines: Map<string, TimelineEntry[]>,
+  remaining: number,
+  now: Date
+): PipelineForecast {
+  const onboardedRank = statusRank(STATUS_ROLES.onboarded);
+  const openStatuses = STATUSES.filter(status => statusRank(status) < onboardedRank);
+
+  // Everyone's visited statuses, and whether their outcome is known yet
+  const histories = people.map(person => {
+    const timeline = timelines.get(person.id) || [];
+    const visited = new Set([...timeline.map(entry => entry.status), person.Status]);
+    const onboarded = countsTowardTarget(person.Status) || timeline.some(entry => countsTowardTarget(entry.status));
+    const resolved = onboarded || person.Status === STATUS_ROLES.closed;
+    return { timeline, visited, onboarded, resolved };
+  });
+
+  const stages: PipelineStage[] = openStatuses.map(status => {
+    const past = histories.filter(h => h.resolved && h.visited.has(status));
+    const converted = past.filter(h => h.onboarded);
+    const days = converted
+      .map(h => durationBetween(h.timeline, status, STATUS_ROLES.onboarded))
+      .filter((d): d is number => d !== null)
+      .sort((a, b) => a - b);
+    const current = people.filter(person => person.Status === status).length;
+    const conversion = past.length > 0 ? converted.length / past.length : null;
+
+    return {
+      status,
+      people: current,
+      conversion,
+      resolved: past.length,
+      medianDaysToOnboard: percentile(days, 0.5),
+      expected: current * (conversion ?? 0),
+    };
+  });
+
+  // Each person converts independently with their stage's probability
+  const expected = stages.reduce((sum, stage) => sum + stage.expected, 0);
+  const variance = stages.reduce((sum, stage) => sum + stage.people * (stage.conversion ?? 0) * (1 - (stage.conversion ?? 0)), 0);
+  const spread = Z_80 * Math.sqrt(variance);
+
+  // Expected conversions land after each stage's median time to onboard
+  let cumulative = 0;
+  let projectedDate: string | null = remaining === 0 ? isoDate(now) : null;
+  [...stages]
+    .filter(stage => stage.expected > 0 && stage.medianDaysToOnboard !== null)
+    .sort((a, b) => (a.medianDaysToOnboard ?? 0) - (b.medianDaysToOnboard ?? 0))
+    .forEach(stage => {
+      cumulative += stage.expected;
+      if (!projectedDate && cumulative >= remaining) {
+        projectedDate = isoDate(addDays(now, stage.medianDaysToOnboard ?? 0));
+      }
+    });
+
+  return {
+    stages,
+    expected,
+    low: Math.max(0, expected - spread),
+    high: expected + spread,
+    shortfall: Math.max(0, remaining - expected),
+    projectedDate,
+  };
+}
+
+export function computeForecast(
+  people: Person[],
+  events: FunnelEvent[],
+  config: ForecastConfig,
+  now: Date = new Date()
+): Forecast {
+  const timelines = buildTimelines(events, people);
+  const counted = people.filter(person => countsTowardTarget(person.Status));
+  const onboarded = counted.length;
+  const remaining = Math.max(0, config.target - onboarded);
+
+  const onboardingDates = counted
+    .map(person => onboardedAt(timelines.get(person.id)))
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+  // People onboarded without a recorded event are counted from the start
+  const undated = onboarded - onboardingDates.length;
+
+  const throughput = forecastThroughput(onboardingDates, remaining, config.windowDays, now);
+  const pipeline = forecastPipeline(people, timelines, remaining, now);
+
+  const actual: BurnUpPoint[] = [];
+  if (onboardingDates.length > 0) {
+    let index = 0;
+    for (let week = onboardingDates[0]; week < addDays(now, 7); week = addDays(week, 7)) {
+      const end = week < now ? week : now;
+      while (index < onboardingDates.length && onboardingDates[index] <= end) index++;
+      actual.push({ date: isoDate(end), onboarded: undated + index });
+    }
+  } else {
+    actual.push({ date: isoDate(now), onboarded });
+  }
+
+  // Project far enough to cross the target or pass the deadline, up to a year
+  const { rate: perDay, low: lowPerDay, high: highPerDay } = throughputRates(throughput.onboardingsInWindow, config.windowDays);
+  const deadlineDays = config.deadline ? (new Date(config.deadline).getTime() - now.getTime()) / DAY_MS : 0;
+  const targetDays = perDay > 0 ? remaining / perDay : 0;
+  const horizon = Math.min(365, Math.max(deadlineDays, targetDays, 28));
+  const projection: ProjectionPoint[] = [];
+  for (let days = 0; days <= horizon + 6; days += 7) {
+    projection.push({
+      date: isoDate(addDays(now, days)),
+      expected: onboarded + perDay * days,
+      low: onboarded + lowPerDay * days,
+      high: onboarded + highPerDay * days,
+    });
+  }
+
+  const weeksLeft = config.deadline ? deadlineDays / 7 : null;
+  const requiredPerWeek = weeksLeft === null ? null : weeksLeft > 0 ? remaining / weeksLeft : remaining > 0 ? null : 0;
+  const onTrack = config.deadline === null ? null
+    : remaining === 0 ? true
+      : throughput.projectedDate !== null && throughput.projectedDate <= config.deadline;
+
+  return {
+    generatedAt: now.toISOString(),
+    target: config.target,
+    deadline: config.deadline,
+    onboarded,
+    remaining,
+    requiredPerWeek,
+    onTrack,
+    throughput,
+    pipeline,
+    actual,
+    projection,
+  };
+}
@@ -0,0 +1,341 @@
+// The recruiting funnel in one place: Airtable statuses, how they are
+// labelled, which Sankey nodes they flow through and how everything is
+// colored. The status machine, Sankey transforms, chart layout and status
+// badges all read from here, so adding a stage is a single edit.
+
+export type StageCategory = 'active' | 'closed' | 'paused';
+
+// Color families shared by Sankey nodes, links and the legend
+export type StageTone = 'success' | 'pending' | 'unreviewed' | 'closed' | 'neutral';
+
+export interface ToneStyle {
+  color: string;       // Node fill
+  linkColor: string;   // Flows into a node of this tone
+  linkOpacity: number;
+  legend?: string;     // Tones without a legend entry are not listed
+}
+
+export const TONES: Record<StageTone, ToneStyle> = {
+  success: { color: '#1a4a5a', linkColor: '#1a4a5a', linkOpacity: 0.25, legend: 'Active progression' },
+  pending: { color: '#5a7a8a', linkColor: '#5a7a8a', linkOpacity: 0.25, legend: 'Pending action' },
+  unreviewed: { color: '#8a7a4a', linkColor: '#8a7a4a', linkOpacity: 0.25, legend: 'Unreviewed' },
+  closed: { color: '#aaaaaa', linkColor: '#777777', linkOpacity: 0.20, legend: 'Closed' },
+  neutral: { color: '#777777', linkColor: '#1a4a5a', linkOpacity: 0.25 },
+};
+
+export interface StatusDefinition {
+  status: string;          // Value of the Airtable Status field
+  label: string;           // Shown in badges and menus
+  description: string;
+  category: StageCategory;
+  tone: StageTone;
+  badgeClass: string;      // Tailwind classes for the table badge
+  transitions: readonly string[];  // Statuses a person may move to from here
+  // Those of `transitions` that go back up the funnel (resuming,
+  // rescheduling, reopening); drawn as back-edges in the journey Sankey
+  backTransitions?: readonly string[];
+  // Snapshot Sankey nodes a person in this status has passed through, in
+  // order; the last one is where they currently sit. Closed people follow
+  // the path of their Close Class stage (CLOSE_STAGES) instead.
+  sankeyPath: readonly string[];
+}
+
+export interface SankeyNodeDefinition {
+  name: string;
+  depth: number;           // Column in the snapshot chart
+  category: StageCategory;
+  tone: StageTone;
+  emphasis?: 'source' | 'outcome';  // Larger labels for the ends of the funnel
+}
+
+// Funnel order: used for journey columns and menus.
+// Anyone can be closed, and anyone past New can be paused (New applicants
+// are qualified or closed); paused people can resume at any active stage,
+// and closed people can be reopened for review.
+export const FUNNEL_STATUSES = [
+  {
+    status: 'New',
+    label: 'New',
+    description: 'Applied through the form; not yet assessed.',
+    category: 'paused',
+    tone: 'unreviewed',
+    badgeClass: 'bg-gray-100 text-gray-800',
+    transitions: ['Lead', 'Closed'],
+    sankeyPath: ['Applications', 'Unassessed'],
+  },
+  {
+    status: 'Lead',
+    label: 'Lead',
+    description: 'Reviewed GitHub; meets initial criteria. Starting point after form.',
+    category: 'active',
+    tone: 'success',
+    badgeClass: 'bg-blue-100 text-blue-800',
+    transitions: ['Scheduling Email Sent', 'Paused', 'Closed'],
+    sankeyPath: ['Applications', 'Qualified'],
+  },
+  {
+    status: 'Scheduling Email Sent',
+    label: 'Scheduling Email Sent',
+    description: 'Outreach sent to schedule a call.',
+    category: 'paused',
+    tone: 'pending',
+    badgeClass: 'bg-cyan-100 text-cyan-800',
+    transitions: ['Call Scheduled', 'Paused', 'Closed'],
+    sankeyPath: ['Applications', 'Qualified', 'Waiting on Reply'],
+  },
+  {
+    status: 'Call Scheduled',
+    label: 'Call Scheduled',
+    description: 'Intro or screening call is on the calendar.',
+    category: 'active',
+    tone: 'success',
+    badgeClass: 'bg-teal-100 text-teal-800',
+    transitions: ['Call Completed', 'Scheduling Email Sent', 'Paused', 'Closed'],
+    backTransitions: ['Scheduling Email Sent'],
+    sankeyPath: ['Applications', 'Qualified', 'Call Upcoming'],
+  },
+  {
+    status: 'Call Completed',
+    label: 'Call Completed',
+    description: 'Initial call happened; evaluating fit.',
+    category: 'active',
+    tone: 'success',
+    badgeClass: 'bg-green-100 text-green-800',
+    transitions: ['Onboarded', 'Paused', 'Closed'],
+    sankeyPath: ['Applications', 'Qualified', 'Call Completed'],
+  },
+  {
+    status: 'Paused',
+    label: 'Paused',
+    description: 'Temporarily on hold; may resume later.',
+    category: 'paused',
+    tone: 'pending',
+    badgeClass: 'bg-yellow-100 text-yellow-800',
+    transitions: ['Lead', 'Scheduling Email Sent', 'Call Scheduled', 'Call Completed', 'Onboarded', 'Active', 'Closed'],
+    backTransitions: ['Lead', 'Scheduling Email Sent', 'Call Scheduled', 'Call Completed', 'Onboarded', 'Active'],
+    sankeyPath: ['Applications', 'Qualified', 'Call Completed', 'Paused'],
+  },
+  {
+    status: 'Onboarded',
+    label: 'Onboarded',
+    description: 'Completed onboarding; access and materials provided.',
+    category: 'active',
+    tone: 'success',
+    badgeClass: 'bg-emerald-100 text-emerald-800',
+    transitions: ['Active', 'Paused', 'Closed'],
+    sankeyPath: ['Applications', 'Qualified', 'Call Completed', 'Onboarded'],
+  },
+  {
+    status: 'Active',
+    label: 'Active',
+    description: 'Joined Slack, contributing, or signed docs.',
+    category: 'active',
+    tone: 'success',
+    badgeClass: 'bg-green-200 text-green-900',
+    transitions: ['Paused', 'Closed'],
+    sankeyPath: ['Applications', 'Qualified', 'Call Completed', 'Onboarded'],
+  },
+  {
+    status: 'Closed',
+    label: 'Closed',
+    description: 'Exited funnel; see closure reason.',
+    category: 'closed',
+    tone: 'closed',
+    badgeClass: 'bg-gray-200 text-gray-800',
+    transitions: ['New', 'Lead'],
+    backTransitions: ['New', 'Lead'],
+    sankeyPath: ['Applications', 'Closed/Rejected'],
+  },
+] as const satisfies readonly StatusDefinition[];
+
+// Statuses with a special meaning elsewhere in the app
+export const STATUS_ROLES = {
+  unassessed: 'New',
+  qualified: 'Lead',
+  onboarded: 'Onboarded',
+  closed: 'Closed',
+} as const;
+
+// Snapshot Sankey nodes in chart order
+export const SANKEY_NODES: readonly SankeyNodeDefinition[] = [
+  { name: 'Applications', depth: 0, category: 'active', tone: 'neutral', emphasis: 'source' },
+  { name: 'Unassessed', depth: 1, category: 'paused', tone: 'unreviewed' },
+  { name: 'Closed/Rejected', depth: 5, category: 'closed', tone: 'closed' },  // Far right to minimize visual dominance
+  { name: 'Qualified', depth: 1, category: 'active', tone: 'success' },
+  { name: 'Waiting on Reply', depth: 2, category: 'paused', tone: 'pending' },
+  { name: 'Call Upcoming', depth: 2, category: 'active', tone: 'pending' },
+  { name: 'Call Completed', depth: 2, category: 'active', tone: 'success' },
+  { name: 'Onboarded', depth: 3, category: 'active', tone: 'success', emphasis: 'outcome' },
+  { name: 'Paused', depth: 3, category: 'paused', tone: 'pending' },
+  { name: 'Closed (Unclassified)', depth: 5, category: 'closed', tone: 'closed' },
+];
+
+// Close Class values read "<who closed> — <stage>", e.g. "Withdrew — After Call".
+// Aliases are matched case-insensitively.
+export interface CloseActorDefinition {
+  actor: string;
+  description: string;
+  aliases: readonly string[];
+}
+
+export interface CloseStageDefinition {
+  stage: string;
+  aliases: readonly string[];
+  // Where closed people of this stage leave the snapshot Sankey: people
+  // who dropped off after qualifying leave from Call Completed rather than
+  // straight from Applications
+  sankeyPath: readonly string[];
+  // Furthest status people closed at this stage must have reached, for
+  // closed people whose funnel events don't show it
+  reached?: string;
+}
+
+export const CLOSE_ACTORS: readonly CloseActorDefinition[] = [
+  { actor: 'Disqualified', description: 'We decided they were not a fit', aliases: ['disqualified', 'rejected'] },
+  { actor: 'Withdrew', description: 'They decided not to continue', aliases: ['withdrew', 'withdrawn', 'declined'] },
+  { actor: 'Unresponsive', description: 'Stopped replying', aliases: ['unresponsive', 'no response', 'ghosted'] },
+  { actor: 'Duplicate', description: 'Merged into another application by the same person', aliases: ['duplicate', 'merged'] },
+];
+
+// Records closed by this actor were merged into another record, so they
+// are left out of every metric rather than counted as closures
+export const DUPLICATE_CLOSE_ACTOR = 'Duplicate';
+
+export const CLOSE_STAGES: readonly CloseStageDefinition[] = [
+  { stage: 'Before Call', aliases: ['before call'], sankeyPath: ['Applications', 'Closed/Rejected'] },
+  {
+    stage: 'After Call',
+    aliases: ['after call'],
+    sankeyPath: ['Applications', 'Qualified', 'Call Completed', 'Closed/Rejected'],
+    reached: 'Call Completed',
+  },
+  {
+    stage: 'After Onboarding',
+    aliases: ['after onboarding', 'after onboard'],
+    sankeyPath: ['Applications', 'Qualified', 'Call Completed', 'Closed/Rejected'],
+    reached: 'Onboarded',
+  },
+];
+
+// Closed people whose Close Class can't be parsed are shown apart rather than guessed
+export const UNCLASSIFIED_CLOSED_PATH: readonly string[] = ['Applications', 'Closed (Unclassified)'];
+
+// Conversion rates annotated next to the snapshot chart
+export const SANKEY_RATES = [
+  { from: 'Applications', to: 'Qualified', text: 'qualification rate', placement: 'below' },
+  { from: 'Qualified', to: 'Onboarded', text: 'of qualified reach onboarding', placement: 'beside' },
+] as const;
+
+export type Status = typeof FUNNEL_STATUSES[number]['status'];
+
+export const STATUSES: readonly Status[] = FUNNEL_STATUSES.map(s => s.status);
+
+const statusByName = new Map<string, StatusDefinition>(FUNNEL_STATUSES.map(s => [s.status, s]));
+const nodeByName = new Map(SANKEY_NODES.map(n => [n.name, n]));
+
+export function getStatusDefinition(status: string): StatusDefinition | undefined {
+  return statusByName.get(status);
+}
+
+// Position in the funnel; unknown statuses sort last
+export function statusRank(status: string): number {
+  const index = STATUSES.indexOf(status as Status);
+  return index === -1 ? STATUSES.length : index;
+}
+
+// Whether a move goes back up the funnel. Moves the config doesn't list
+// (legacy data, unknown statuses) fall back to funnel order.
+export function isBackTransition(from: string, to: string): boolean {
+  const definition = statusByName.get(from);
+  if (definition?.transitions.includes(to)) return definition.backTransitions?.includes(to) ?? false;
+  return statusRank(to) <= statusRank(from);
+}
+
+// Style of a chart node, whether a snapshot node or a raw status (journey mode)
+export function getNodeTone(name: string): StageTone {
+  return nodeByName.get(name)?.tone ?? statusByName.get(name)?.tone ?? 'neutral';
+}
+
+export function getSankeyNode(name: string): SankeyNodeDefinition | undefined {
+  return nodeByName.get(name);
+}
+
+// `closeStage` is the parsed stage of a closed person's Close Class, null
+// when it couldn't be parsed
+export function sankeyPathFor(status: string, closeStage?: string | null): readonly string[] | undefined {
+  if (status === STATUS_ROLES.closed) {
+    if (!closeStage) return UNCLASSIFIED_CLOSED_PATH;
+    return CLOSE_STAGES.find(s => s.stage === closeStage)?.sankeyPath ?? UNCLASSIFIED_CLOSED_PATH;
+  }
+  return statusByName.get(status)?.sankeyPath;
+}
+
+export const LEGEND = (Object.values(TONES) as ToneStyle[])
+  .filter((tone): tone is ToneStyle & { legend: string } => Boolean(tone.legend))
+  .map(tone => ({ label: tone.legend, color: tone.color }));
+
+// Internal consistency of the config itself
+export function validateFunnelConfig(): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  FUNNEL_STATUSES.forEach((definition: StatusDefinition) => {
+    if (seen.has(definition.status)) errors.push(`Status "${definition.status}" is defined twice`);
+    seen.add(definition.status);
+    definition.transitions.forEach(to => {
+      if (!statusByName.has(to)) errors.push(`"${definition.status}" transitions to unknown status "${to}"`);
+    });
+    definition.backTransitions?.forEach(to => {
+      if (!definition.transitions.includes(to)) errors.push(`"${definition.status}" has back transition "${to}" that isn't one of its transitions`);
+    });
+    definition.sankeyPath.forEach(node => {
+      if (!nodeByName.has(node)) errors.push(`"${definition.status}" flows through unknown Sankey node "${node}"`);
+    });
+  });
+  [...CLOSE_STAGES.map(s => s.sankeyPath), UNCLASSIFIED_CLOSED_PATH].forEach(path => path.forEach(node => {
+    if (!nodeByName.has(node)) errors.push(`Closed path uses unknown Sankey node "${node}"`);
+  }));
+  CLOSE_STAGES.forEach(stage => {
+    if (stage.reached && !statusByName.has(stage.reached)) {
+      errors.push(`Close stage "${stage.stage}" reaches unknown status "${stage.reached}"`);
+    }
+  });
+  Object.values(STATUS_ROLES).forEach(status => {
+    if (!statusByName.has(status)) errors.push(`Status role refers to unknown status "${status}"`);
+  });
+  return errors;
+}
+
+export interface UncoveredStatus {
+  status: string;
+  people: number;   // People currently in this status
+  events: number;   // Funnel events moving from or to it
+}
+
+// Statuses found in the data that the config doesn't define
+export function findUncoveredStatuses(
+  people: { Status?: unknown }[],
+  events: { 'From Status'?: unknown; 'To Status'?: unknown }[] = []
+): UncoveredStatus[] {
+  const found = new Map<string, UncoveredStatus>();
+  const entry = (status: string) => {
+    let item = found.get(status);
+    if (!item) {
+      item = { status, people: 0, events: 0 };
+      found.set(status, item);
+    }
+    return item;
+  };
+
+  people.forEach(person => {
+    if (typeof person.Status === 'string' && person.Status && !statusByName.has(person.Status)) {
+      entry(person.Status).people++;
+    }
+  });
+  events.forEach(event => {
+    [event['From Status'], event['To Status']].forEach(status => {
+      if (typeof status === 'string' && status && !statusByName.has(status)) entry(status).events++;
+    });
+  });
+
+  return Array.from(found.values()).sort((a, b) => b.people + b.events - (a.people + a.events));
+}
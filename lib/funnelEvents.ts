@@ -0,0 +1,32 @@
+import { getDataSource } from './dataSource';
+import type { FunnelEvent } from './records';
+
+export interface StatusChange {
+  personId: string;
+  fromStatus: string;
+  toStatus: string;
+  actor?: string;
+  note?: string;
+}
+
+// Record a Status change in the Funnel Events table
+export async function recordStatusChange(change: StatusChange): Promise<FunnelEvent | null> {
+  if (change.fromStatus === change.toStatus) return null;
+
+  return getDataSource().createFunnelEvent({
+    leadId: change.personId,
+    fromStatus: change.fromStatus,
+    toStatus: change.toStatus,
+    changedAt: new Date().toISOString(),
+    actor: change.actor,
+    note: change.note,
+  });
+}
+
+// The person's most recent funnel event, if any
+export async function lastFunnelEvent(personId: string): Promise<FunnelEvent | null> {
+  const time = (event: FunnelEvent) => new Date(event['Changed At']).getTime() || 0;
+  return (await getDataSource().listFunnelEvents())
+    .filter(event => event.Lead?.includes(personId))
+    .reduce<FunnelEvent | null>((last, event) => (!last || time(event) >= time(last) ? event : last), null);
+}
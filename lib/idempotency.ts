@@ -0,0 +1,38 @@
+// Remembers results by Idempotency-Key so a retried write returns the
+// original response instead of being applied twice. In-process only.
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+interface Entry {
+  result: Promise<unknown>; // Shared with concurrent retries while in flight
+  storedAt: number;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __idempotencyKeys?: Map<string, Entry>;
+};
+
+function getStore() {
+  if (!globalStore.__idempotencyKeys) globalStore.__idempotencyKeys = new Map();
+  return globalStore.__idempotencyKeys;
+}
+
+export function withIdempotencyKey<T>(key: string | null | undefined, run: () => Promise<T>): Promise<T> {
+  if (!key) return run();
+
+  const store = getStore();
+  const now = Date.now();
+  store.forEach((entry, storedKey) => {
+    if (now - entry.storedAt > TTL_MS) store.delete(storedKey);
+  });
+
+  const existing = store.get(key);
+  if (existing) return existing.result as Promise<T>;
+
+  // Failed attempts are forgotten so the client can retry them
+  const result = run().catch(error => {
+    store.delete(key);
+    throw error;
+  });
+  store.set(key, { result, storedAt: now });
+  return result;
+}
@@ -0,0 +1,215 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { NewFunnelEvent, PipelineDataSource, PersonFieldValue } from './dataSource';
+import { getFieldMaps, parseFunnelEvents, parsePeople, toColumns, toFunnelEvent, toPerson } from './records';
+import { generateSyntheticPipeline } from './syntheticPipeline';
+
+// File-backed pipeline for local development, tests and demos.
+// Reads people.json|people.csv and funnel-events.json|funnel-events.csv from
+// LOCAL_DATA_DIR (default ./fixtures). When no fixture files exist, a
+// synthetic pipeline seeded by LOCAL_DATA_SEED is generated instead. Rows
+// are keyed by Airtable column and go through the same schema checks.
+
+type Row = Record<string, unknown>;
+
+interface LocalState {
+  people: Row[];
+  events: Row[];
+  peopleFile: string | null; // JSON files to persist writes to, if any
+  eventsFile: string | null;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __localPipeline?: Promise<LocalState>;
+};
+
+function getDataDir() {
+  return process.env.LOCAL_DATA_DIR || path.join(process.cwd(), 'fixtures');
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+// Load `<name>.json`, falling back to `<name>.csv`
+async function loadRows(dir: string, name: string): Promise<{ rows: Row[]; file: string } | null> {
+  const jsonFile = path.join(dir, `${name}.json`);
+  const json = await readIfExists(jsonFile);
+  if (json !== null) return { rows: JSON.parse(json), file: jsonFile };
+
+  const csvFile = path.join(dir, `${name}.csv`);
+  const csv = await readIfExists(csvFile);
+  if (csv !== null) return { rows: parseCsv(csv), file: csvFile };
+
+  return null;
+}
+
+async function loadState(): Promise<LocalState> {
+  const dir = getDataDir();
+  const [people, events] = await Promise.all([loadRows(dir, 'people'), loadRows(dir, 'funnel-events')]);
+
+  if (!people) {
+    const synthetic = generateSyntheticPipeline({ seed: Number(process.env.LOCAL_DATA_SEED) || 1 });
+    return {
+      people: synthetic.people.map(person => toColumns('people', { ...person })),
+      events: synthetic.events.map(event => toColumns('funnelEvents', { ...event })),
+      peopleFile: null,
+      eventsFile: null,
+    };
+  }
+
+  // CSV fixtures list linked people as "recA;recB", under the mapped column
+  const leadColumn = getFieldMaps().funnelEvents.Lead;
+  return {
+    people: people.rows,
+    events: (events?.rows || []).map(row => {
+      const lead = row[leadColumn];
+      return typeof lead === 'string'
+        ? { ...row, [leadColumn]: lead.split(/[;,]/).map(id => id.trim()).filter(Boolean) }
+        : row;
+    }),
+    peopleFile: people.file.endsWith('.json') ? people.file : null,
+    eventsFile: events?.file.endsWith('.json') ? events.file : null,
+  };
+}
+
+function getState(): Promise<LocalState> {
+  if (!globalStore.__localPipeline) {
+    globalStore.__localPipeline = loadState().catch(error => {
+      globalStore.__localPipeline = undefined;
+      throw error;
+    });
+  }
+  return globalStore.__localPipeline;
+}
+
+export function getLocalDataSource(): PipelineDataSource {
+  return {
+    name: 'local',
+
+    async listPeople() {
+      return parsePeople((await getState()).people).records;
+    },
+
+    async getPerson(id: string) {
+      const row = (await getState()).people.find(person => person.id === id);
+      return row ? toPerson(row) : null;
+    },
+
+    async listFunnelEvents() {
+      return parseFunnelEvents((await getState()).events).records;
+    },
+
+    async createFunnelEvent(event: NewFunnelEvent) {
+      const state = await getState();
+      const created = {
+        id: `recLocal${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        'From Status': event.fromStatus,
+        'To Status': event.toStatus,
+        'Changed At': event.changedAt,
+        Lead: [event.leadId],
+        ...(event.actor ? { 'Changed By': event.actor } : {}),
+        ...(event.note ? { Note: event.note } : {}),
+      };
+      state.events = [...state.events, toColumns('funnelEvents', created)];
+      if (state.eventsFile) {
+        await fs.writeFile(state.eventsFile, JSON.stringify(state.events, null, 2));
+      }
+      return created;
+    },
+
+    async updateFunnelEventLeads(id: string, leadIds: string[]) {
+      const state = await getState();
+      const row = state.events.find(event => event.id === id);
+      if (!row) {
+        throw new Error(`Funnel event ${id} not found`);
+      }
+
+      const updated = { ...row, ...toColumns('funnelEvents', { Lead: leadIds }) };
+      const event = toFunnelEvent(updated);
+      state.events = state.events.map(other => (other.id === id ? updated : other));
+      if (state.eventsFile) {
+        await fs.writeFile(state.eventsFile, JSON.stringify(state.events, null, 2));
+      }
+      return event;
+    },
+
+    async updatePerson(id: string, fields: Record<string, PersonFieldValue>) {
+      const state = await getState();
+      const index = state.people.findIndex(person => person.id === id);
+      if (index === -1) {
+        throw new Error(`Person ${id} not found`);
+      }
+
+      const updated = { ...state.people[index] };
+      Object.entries(toColumns('people', fields)).forEach(([column, value]) => {
+        if (value === null) delete updated[column];
+        else updated[column] = value;
+      });
+      const person = toPerson(updated);
+      state.people = state.people.map(row => (row.id === id ? updated : row));
+      if (state.peopleFile) {
+        await fs.writeFile(state.peopleFile, JSON.stringify(state.people, null, 2));
+      }
+      return person;
+    },
+
+    async listRecordIssues() {
+      const state = await getState();
+      return [...parsePeople(state.people).issues, ...parseFunnelEvents(state.events).issues];
+    },
+  };
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF line endings
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell !== ''));
+  if (!header) return [];
+  return body.map(cells => {
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => {
+      if (cells[i] !== undefined && cells[i] !== '') record[column] = cells[i];
+    });
+    return record;
+  });
+}
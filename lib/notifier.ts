@@ -0,0 +1,45 @@
+// Where digests go. NOTIFIER=webhook posts to NOTIFIER_WEBHOOK_URL (Slack
+// and most chat/email relays accept { text }); anything else logs to the
+// server console, which keeps local development offline.
+export interface NotificationMessage {
+  subject: string;
+  markdown: string;
+}
+
+export interface Notifier {
+  name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export const consoleNotifier: Notifier = {
+  name: 'console',
+  async send(message) {
+    console.log(`[notifier] ${message.subject}\n${message.markdown}`);
+  },
+};
+
+export function createWebhookNotifier(url: string): Notifier {
+  return {
+    name: 'webhook',
+    async send(message) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject: message.subject, text: message.markdown }),
+      });
+      if (!res.ok) {
+        throw new Error(`Notifier webhook responded with ${res.status}`);
+      }
+    },
+  };
+}
+
+export function getNotifier(): Notifier {
+  if (process.env.NOTIFIER === 'webhook') {
+    if (!process.env.NOTIFIER_WEBHOOK_URL) {
+      throw new Error('NOTIFIER_WEBHOOK_URL is not set');
+    }
+    return createWebhookNotifier(process.env.NOTIFIER_WEBHOOK_URL);
+  }
+  return consoleNotifier;
+}
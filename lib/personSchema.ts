@@ -0,0 +1,85 @@
+import type { PersonFieldValue } from './dataSource';
+import { parseCloseClass } from './closeClass';
+import { isStatus, STATUSES } from './statusMachine';
+
+type FieldType = 'text' | 'email' | 'url' | 'status' | 'closeClass';
+
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean;   // Can't be cleared
+  maxLength?: number;
+}
+
+// The only People fields the app may write, and what they accept
+export const EDITABLE_FIELDS: Record<string, FieldSpec> = {
+  'Name': { type: 'text', required: true, maxLength: 200 },
+  'Email': { type: 'email', maxLength: 320 },
+  'Status': { type: 'status', required: true },
+  'Close Class': { type: 'closeClass', maxLength: 200 },
+  'Role': { type: 'text', maxLength: 200 },
+  'Source/Channel': { type: 'text', maxLength: 200 },
+  'GitHub Link': { type: 'url', maxLength: 500 },
+};
+
+export type PersonUpdate = Record<string, PersonFieldValue | null>;
+
+// Check a PATCH body against EDITABLE_FIELDS. Strings are trimmed and empty
+// strings clear optional fields (sent to Airtable as null). When
+// `restoring` earlier values (a revert), only writability is checked and
+// strings are kept as they were.
+export function validatePersonUpdate(
+  body: unknown,
+  { restoring = false }: { restoring?: boolean } = {}
+): { fields: PersonUpdate; errors: string[] } {
+  const fields: PersonUpdate = {};
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { fields, errors: ['Body must be a JSON object of fields'] };
+  }
+
+  Object.entries(body as Record<string, unknown>).forEach(([name, raw]) => {
+    const spec = EDITABLE_FIELDS[name];
+    if (!spec) {
+      errors.push(`"${name}" is not an editable field`);
+      return;
+    }
+
+    if (raw === null || raw === '') {
+      if (spec.required) errors.push(`"${name}" cannot be empty`);
+      else fields[name] = null;
+      return;
+    }
+    if (typeof raw !== 'string') {
+      errors.push(`"${name}" must be a string`);
+      return;
+    }
+    if (restoring) {
+      fields[name] = raw;
+      return;
+    }
+
+    const value = raw.trim();
+    if (spec.maxLength && value.length > spec.maxLength) {
+      errors.push(`"${name}" must be at most ${spec.maxLength} characters`);
+    } else if (spec.type === 'status' && !isStatus(value)) {
+      errors.push(`"${name}" must be one of: ${STATUSES.join(', ')}`);
+    } else if (spec.type === 'closeClass') {
+      // Stored in canonical form so every reader parses it the same way
+      const closeClass = parseCloseClass(value);
+      if (closeClass.recognized) fields[name] = closeClass.label;
+      else errors.push(`"${name}" is not a recognized close reason: ${closeClass.reason}`);
+    } else if (spec.type === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+      errors.push(`"${name}" must be an email address`);
+    } else if (spec.type === 'url' && !/^https?:\/\/\S+$/.test(value)) {
+      errors.push(`"${name}" must be an http(s) URL`);
+    } else {
+      fields[name] = value;
+    }
+  });
+
+  if (errors.length === 0 && Object.keys(fields).length === 0) {
+    errors.push('No fields to update');
+  }
+  return { fields, errors };
+}
@@ -0,0 +1,124 @@
+import { appendAuditEntries, diffForAudit, getAuditChange, getAuditEntry, sameAuditValue } from './audit';
+import { getDataSource } from './dataSource';
+import { HttpError } from './errors';
+import { STATUS_ROLES } from './funnelConfig';
+import { lastFunnelEvent, recordStatusChange } from './funnelEvents';
+import { validatePersonUpdate } from './personSchema';
+import { isPersonField, type Person, type PersonField } from './records';
+import { canTransition } from './statusMachine';
+
+// Who made a change and why; recorded on the funnel event and audit log
+export interface ChangeContext {
+  actor?: string;
+  note?: string;
+  revertOf?: string;   // Audit entry this update reverts
+}
+
+// Split the optional `actor` and `note` out of a PATCH body
+export function splitChangeContext(body: unknown, signedInAs?: string): { fields: unknown; context: ChangeContext } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { fields: body, context: { actor: signedInAs } };
+  }
+  const { actor, note, ...fields } = body as Record<string, unknown>;
+  return {
+    fields,
+    context: {
+      // A signed-in user can't record changes under someone else's name
+      actor: signedInAs ?? (typeof actor === 'string' && actor.trim() ? actor.trim() : undefined),
+      note: typeof note === 'string' && note.trim() ? note.trim() : undefined,
+    },
+  };
+}
+
+// Validate a PATCH body against the field schema and the status state
+// machine, then write every field in a single update. Every changed field
+// is appended to the audit log, and a Status change is also recorded as a
+// funnel event.
+export async function applyPersonUpdate(id: string, body: unknown, context: ChangeContext = {}): Promise<Person> {
+  // A revert restores an earlier state exactly, even values that predate
+  // the schema or break the rules below, so only writability is checked
+  const restoring = Boolean(context.revertOf);
+  const { fields, errors } = validatePersonUpdate(body, { restoring });
+  if (errors.length > 0) {
+    throw new HttpError(400, 'Invalid update', errors);
+  }
+
+  const dataSource = getDataSource();
+  const person = await dataSource.getPerson(id);
+  if (!person) {
+    throw new HttpError(404, `Person ${id} not found`);
+  }
+
+  const nextStatus = typeof fields.Status === 'string' ? fields.Status : person.Status;
+  if (!restoring) {
+    if (!canTransition(person.Status, nextStatus)) {
+      throw new HttpError(422, `Cannot move from ${person.Status} to ${nextStatus}`);
+    }
+
+    // A Close Class belongs to a closure: required when closing, refused
+    // otherwise, and cleared when someone is reopened
+    const closeClass = 'Close Class' in fields ? fields['Close Class'] : person['Close Class'];
+    if (nextStatus === STATUS_ROLES.closed && !closeClass) {
+      throw new HttpError(422, 'Closing a person requires a Close Class');
+    }
+    if (nextStatus !== STATUS_ROLES.closed && fields['Close Class']) {
+      throw new HttpError(422, `A Close Class can only be set on ${STATUS_ROLES.closed} people`);
+    }
+    if (person.Status === STATUS_ROLES.closed && nextStatus !== STATUS_ROLES.closed && person['Close Class']) {
+      fields['Close Class'] = null;
+    }
+  }
+
+  const updated = await dataSource.updatePerson(id, fields);
+  const entries = diffForAudit(person, updated, Object.keys(fields).filter(isPersonField), context);
+  try {
+    await appendAuditEntries(entries);
+  } catch (error) {
+    // The write already happened; keep the entries in the server log
+    console.error('Error appending to audit log:', error, JSON.stringify(entries));
+  }
+
+  // Recorded only once the write succeeded. If recording fails, retrying
+  // the update finds Status already written, sees that the last event
+  // doesn't end there, and records the move from where the events left off.
+  let fromStatus = person.Status;
+  if ('Status' in fields && person.Status === nextStatus) {
+    const last = await lastFunnelEvent(id);
+    if (last && last['To Status'] !== nextStatus) fromStatus = last['To Status'];
+  }
+  await recordStatusChange({
+    personId: id,
+    fromStatus,
+    toStatus: nextStatus,
+    actor: context.actor,
+    note: context.note,
+  });
+
+  return updated;
+}
+
+// Undo the update an audit entry belongs to by writing back the old value
+// of every field it changed (e.g. both Status and Close Class of a close),
+// as a new audited update. Refused when any of them has changed since.
+export async function revertAuditEntry(entryId: string, context: ChangeContext = {}): Promise<Person> {
+  const entry = await getAuditEntry(entryId);
+  if (!entry) {
+    throw new HttpError(404, `Audit entry ${entryId} not found`);
+  }
+
+  const person = await getDataSource().getPerson(entry.recordId);
+  if (!person) {
+    throw new HttpError(404, `Person ${entry.recordId} not found`);
+  }
+  const change = (await getAuditChange(entry.changeId)).filter(e => e.recordId === entry.recordId && isPersonField(e.field));
+  const changedSince = change.filter(e => !sameAuditValue(person[e.field as PersonField], e.newValue)).map(e => e.field);
+  if (changedSince.length > 0) {
+    throw new HttpError(409, `${changedSince.join(' and ')} changed since this entry; revert the later change first`);
+  }
+
+  return applyPersonUpdate(entry.recordId, Object.fromEntries(change.map(e => [e.field, e.oldValue])), {
+    actor: context.actor,
+    note: context.note ?? `Revert of ${entry.id}`,
+    revertOf: entry.id,
+  });
+}
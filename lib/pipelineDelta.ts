@@ -0,0 +1,42 @@
+// Change sets pushed over /api/stream. Shared by the server-side watcher,
+// which computes them, and the pages, which apply them to their state.
+
+export interface RecordChanges<T> {
+  upserted: T[];      // New or changed records, whole
+  removed: string[];  // Ids of deleted records
+}
+
+export interface PipelineDelta<P = { id: string }, E = { id: string }> {
+  version: number;
+  people: RecordChanges<P>;
+  events: RecordChanges<E>;
+}
+
+export function diffRecords<T extends { id: string }>(previous: T[], next: T[]): RecordChanges<T> {
+  const before = new Map(previous.map(record => [record.id, JSON.stringify(record)]));
+  const after = new Set(next.map(record => record.id));
+  return {
+    upserted: next.filter(record => before.get(record.id) !== JSON.stringify(record)),
+    removed: previous.filter(record => !after.has(record.id)).map(record => record.id),
+  };
+}
+
+// Changed records are replaced in place; new ones are appended
+export function applyChanges<T extends { id: string }>(records: T[], changes: RecordChanges<T>): T[] {
+  if (changes.upserted.length === 0 && changes.removed.length === 0) return records;
+  const removed = new Set(changes.removed);
+  const upserted = new Map(changes.upserted.map(record => [record.id, record]));
+  const result = records
+    .filter(record => !removed.has(record.id))
+    .map(record => {
+      const next = upserted.get(record.id);
+      if (next) upserted.delete(record.id);
+      return next ?? record;
+    });
+  return [...result, ...upserted.values()];
+}
+
+export function isEmptyDelta(delta: PipelineDelta): boolean {
+  return delta.people.upserted.length === 0 && delta.people.removed.length === 0 &&
+    delta.events.upserted.length === 0 && delta.events.removed.length === 0;
+}
@@ -0,0 +1,125 @@
+import { getDataSource } from './dataSource';
+import { diffRecords, isEmptyDelta, type PipelineDelta } from './pipelineDelta';
+import type { FunnelEvent, Person } from './records';
+
+// One watcher per server process checks People and Funnel Events for
+// changes and fans the deltas out to every /api/stream connection, so open
+// tabs no longer poll Airtable themselves. It only runs while someone is
+// connected. Reads go through the data source cache, and an Airtable
+// webhook can trigger an immediate check.
+
+export interface PipelineState {
+  version: number;
+  people: Person[];
+  events: FunnelEvent[];
+  checkedAt: string;
+}
+
+export type PipelineChange = PipelineDelta<Person, FunnelEvent>;
+
+type Listener = (delta: PipelineChange) => void;
+
+interface WatcherState {
+  listeners: Set<Listener>;
+  current?: PipelineState;
+  checking?: Promise<PipelineState>;
+  timer?: ReturnType<typeof setInterval>;
+}
+
+const WATCH_INTERVAL_MS = Number(process.env.STREAM_CHECK_SECONDS ?? 15) * 1000;
+
+const globalStore = globalThis as typeof globalThis & {
+  __pipelineWatcher?: WatcherState;
+};
+
+function getWatcher(): WatcherState {
+  if (!globalStore.__pipelineWatcher) globalStore.__pipelineWatcher = { listeners: new Set() };
+  return globalStore.__pipelineWatcher;
+}
+
+// Load both tables and broadcast what changed since the last check.
+// Concurrent callers share one check.
+export function checkForChanges(): Promise<PipelineState> {
+  const watcher = getWatcher();
+  if (watcher.checking) return watcher.checking;
+
+  const checking = (async () => {
+    const dataSource = getDataSource();
+    const [people, events] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+    const previous = watcher.current;
+    const next: PipelineState = {
+      version: (previous?.version ?? 0) + 1,
+      people,
+      events,
+      checkedAt: new Date().toISOString(),
+    };
+
+    if (previous) {
+      const delta: PipelineChange = {
+        version: next.version,
+        people: diffRecords(previous.people, people),
+        events: diffRecords(previous.events, events),
+      };
+      if (isEmptyDelta(delta)) {
+        // Nothing changed, so clients stay on the version they have
+        next.version = previous.version;
+      } else {
+        watcher.listeners.forEach(listener => {
+          // One broken connection mustn't stop the others, or keep the
+          // watcher from moving on and re-sending this delta every tick
+          try {
+            listener(delta);
+          } catch (error) {
+            console.error('Error notifying pipeline listener; unsubscribing it:', error);
+            removeListener(listener);
+          }
+        });
+      }
+    }
+
+    watcher.current = next;
+    return next;
+  })().finally(() => {
+    if (watcher.checking === checking) watcher.checking = undefined;
+  });
+
+  watcher.checking = checking;
+  return checking;
+}
+
+// Register a listener and get the current state to start from
+export async function subscribe(listener: Listener): Promise<{ state: PipelineState; unsubscribe: () => void }> {
+  const watcher = getWatcher();
+  const state = watcher.current ?? await checkForChanges();
+  watcher.listeners.add(listener);
+
+  if (!watcher.timer) {
+    watcher.timer = setInterval(() => {
+      checkForChanges().catch(error => console.error('Error checking pipeline for changes:', error));
+    }, WATCH_INTERVAL_MS);
+  }
+
+  return { state, unsubscribe: () => removeListener(listener) };
+}
+
+function removeListener(listener: Listener) {
+  const watcher = getWatcher();
+  watcher.listeners.delete(listener);
+  if (watcher.listeners.size === 0 && watcher.timer) {
+    clearInterval(watcher.timer);
+    watcher.timer = undefined;
+    // Without listeners nobody hears about changes, so start over next time
+    watcher.current = undefined;
+  }
+}
+
+// Something changed upstream (e.g. an Airtable webhook): skip the cache and
+// check right away
+export async function refreshNow(): Promise<PipelineState> {
+  getDataSource().invalidateCache?.();
+  return checkForChanges();
+}
+
+export function listenerCount(): number {
+  return getWatcher().listeners.size;
+}
@@ -0,0 +1,263 @@
+// The pipeline's domain model, shared by the server and the pages. Field
+// names are the app's own; the Airtable column each one is read from and
+// written to comes from the field maps below, so a renamed column is a
+// config change (AIRTABLE_FIELD_MAP) rather than a silent gap. Every record
+// crossing the boundary is checked against the schema: a bad optional field
+// is dropped, a record missing a required field is left out, and both are
+// reported through /api/data-quality instead of reaching the metrics.
+
+export interface Person {
+  id: string;
+  Name: string;
+  Status: string;
+  'Close Class'?: string;
+  Email?: string;
+  Role?: string;
+  'GitHub Link'?: string;
+  'Source/Channel'?: string;
+  Created?: string;          // ISO timestamp
+}
+
+export interface FunnelEvent {
+  id: string;
+  'From Status': string;
+  'To Status': string;
+  'Changed At': string;      // ISO timestamp
+  Lead?: string[];           // Linked People record ids
+  'Changed By'?: string;
+  Note?: string;
+}
+
+export type PersonField = Exclude<keyof Person, 'id'>;
+export type FunnelEventField = Exclude<keyof FunnelEvent, 'id'>;
+export type PersonValue = Person[PersonField];
+
+type FieldKind = 'text' | 'date' | 'links';
+
+interface FieldSchema {
+  kind: FieldKind;
+  required?: boolean;        // Records without it are left out
+}
+
+const PERSON_SCHEMA: Record<PersonField, FieldSchema> = {
+  'Name': { kind: 'text', required: true },
+  'Status': { kind: 'text', required: true },
+  'Close Class': { kind: 'text' },
+  'Email': { kind: 'text' },
+  'Role': { kind: 'text' },
+  'GitHub Link': { kind: 'text' },
+  'Source/Channel': { kind: 'text' },
+  'Created': { kind: 'date' },
+};
+
+const FUNNEL_EVENT_SCHEMA: Record<FunnelEventField, FieldSchema> = {
+  'From Status': { kind: 'text', required: true },
+  'To Status': { kind: 'text', required: true },
+  'Changed At': { kind: 'date', required: true },
+  'Lead': { kind: 'links' },
+  'Changed By': { kind: 'text' },
+  'Note': { kind: 'text' },
+};
+
+export const PERSON_FIELDS = Object.keys(PERSON_SCHEMA) as PersonField[];
+export const FUNNEL_EVENT_FIELDS = Object.keys(FUNNEL_EVENT_SCHEMA) as FunnelEventField[];
+
+export function isPersonField(name: string): name is PersonField {
+  return (PERSON_FIELDS as string[]).includes(name);
+}
+
+// Internal field name -> Airtable column name
+export interface FieldMaps {
+  people: Record<PersonField, string>;
+  funnelEvents: Record<FunnelEventField, string>;
+}
+
+function identityMap<F extends string>(fields: F[]): Record<F, string> {
+  return fields.reduce((map, field) => {
+    map[field] = field;
+    return map;
+  }, {} as Record<F, string>);
+}
+
+export const DEFAULT_FIELD_MAPS: FieldMaps = {
+  people: identityMap(PERSON_FIELDS),
+  funnelEvents: identityMap(FUNNEL_EVENT_FIELDS),
+};
+
+// AIRTABLE_FIELD_MAP may hold JSON overriding columns per table, e.g.
+// {"people":{"Source/Channel":"Source"},"funnelEvents":{"Changed By":"Actor"}}
+export function getFieldMaps(): FieldMaps {
+  const raw = process.env.AIRTABLE_FIELD_MAP;
+  if (!raw) return DEFAULT_FIELD_MAPS;
+
+  const parsed: unknown = JSON.parse(raw);
+  const errors: string[] = [];
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    errors.push('must be a JSON object');
+  } else {
+    Object.entries(parsed as Record<string, unknown>).forEach(([table, overrides]) => {
+      const fields: string[] = table === 'people' ? PERSON_FIELDS : table === 'funnelEvents' ? FUNNEL_EVENT_FIELDS : [];
+      if (fields.length === 0) {
+        errors.push(`unknown table "${table}" (use people or funnelEvents)`);
+      } else if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+        errors.push(`${table} must map field names to column names`);
+      } else {
+        Object.entries(overrides as Record<string, unknown>).forEach(([field, column]) => {
+          if (!fields.includes(field)) errors.push(`${table} has no field "${field}"`);
+          else if (typeof column !== 'string' || !column.trim()) errors.push(`${table}.${field} must be a column name`);
+        });
+      }
+    });
+  }
+  if (errors.length > 0) {
+    throw new Error(`AIRTABLE_FIELD_MAP ${errors.join('; ')}`);
+  }
+
+  const overrides = parsed as Partial<{ [T in keyof FieldMaps]: Partial<FieldMaps[T]> }>;
+  return {
+    people: { ...DEFAULT_FIELD_MAPS.people, ...overrides.people },
+    funnelEvents: { ...DEFAULT_FIELD_MAPS.funnelEvents, ...overrides.funnelEvents },
+  };
+}
+
+export type RecordTable = keyof FieldMaps;
+
+export interface RecordIssue {
+  table: RecordTable;
+  recordId: string;
+  field: string;             // Internal field name
+  column: string;            // Airtable column it was read from
+  problem: string;
+  value?: unknown;           // What was found, when something was
+  recordDropped: boolean;    // Whole record left out, not just the field
+}
+
+export interface ParsedRecords<T> {
+  records: T[];
+  issues: RecordIssue[];
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'a list';
+  if (value === null) return 'null';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+// A field value in its internal form, or the reason it can't be used
+function parseValue(kind: FieldKind, raw: unknown): { value: string | string[] } | { problem: string } {
+  switch (kind) {
+    case 'text':
+      return typeof raw === 'string' ? { value: raw } : { problem: `expected text, got ${describe(raw)}` };
+    case 'date':
+      if (typeof raw !== 'string') return { problem: `expected a date, got ${describe(raw)}` };
+      return Number.isNaN(new Date(raw).getTime()) ? { problem: 'is not a valid date' } : { value: raw };
+    case 'links':
+      return Array.isArray(raw) && raw.every(id => typeof id === 'string')
+        ? { value: raw }
+        : { problem: `expected linked record ids, got ${describe(raw)}` };
+  }
+}
+
+function parseRecord<T extends { id: string }>(
+  table: RecordTable,
+  schema: Record<string, FieldSchema>,
+  columns: Record<string, string>,
+  row: Record<string, unknown>
+): { record: T | null; issues: RecordIssue[] } {
+  const recordId = typeof row.id === 'string' ? row.id : '';
+  const issues: RecordIssue[] = [];
+  const record: Record<string, unknown> = { id: recordId };
+  if (!recordId) {
+    issues.push({ table, recordId, field: 'id', column: 'id', problem: 'has no record id', recordDropped: true });
+  }
+
+  Object.entries(schema).forEach(([field, spec]) => {
+    const column = columns[field];
+    const raw = row[column];
+    if (raw === undefined || raw === null || raw === '') {
+      if (spec.required) {
+        issues.push({ table, recordId, field, column, problem: `is missing (column "${column}")`, recordDropped: true });
+      }
+      return;
+    }
+
+    const parsed = parseValue(spec.kind, raw);
+    if ('value' in parsed) {
+      record[field] = parsed.value;
+    } else {
+      issues.push({ table, recordId, field, column, problem: parsed.problem, value: raw, recordDropped: Boolean(spec.required) });
+    }
+  });
+
+  const dropped = issues.some(issue => issue.recordDropped);
+  // Flag every issue of a left-out record, not only the one that caused it
+  return {
+    record: dropped ? null : record as T,
+    issues: dropped ? issues.map(issue => ({ ...issue, recordDropped: true })) : issues,
+  };
+}
+
+function parseRows<T extends { id: string }>(
+  table: RecordTable,
+  schema: Record<string, FieldSchema>,
+  columns: Record<string, string>,
+  rows: Record<string, unknown>[]
+): ParsedRecords<T> {
+  const records: T[] = [];
+  const issues: RecordIssue[] = [];
+  rows.forEach(row => {
+    const parsed = parseRecord<T>(table, schema, columns, row);
+    if (parsed.record) records.push(parsed.record);
+    issues.push(...parsed.issues);
+  });
+  return { records, issues };
+}
+
+// Rows are `{ id, ...fields }` keyed by Airtable column. Results are kept
+// per rows array, so a cached table is only checked again when it changes.
+const parsedPeople = new WeakMap<object, ParsedRecords<Person>>();
+const parsedFunnelEvents = new WeakMap<object, ParsedRecords<FunnelEvent>>();
+
+export function parsePeople(rows: Record<string, unknown>[]): ParsedRecords<Person> {
+  let parsed = parsedPeople.get(rows);
+  if (!parsed) {
+    parsed = parseRows<Person>('people', PERSON_SCHEMA, getFieldMaps().people, rows);
+    parsedPeople.set(rows, parsed);
+  }
+  return parsed;
+}
+
+export function parseFunnelEvents(rows: Record<string, unknown>[]): ParsedRecords<FunnelEvent> {
+  let parsed = parsedFunnelEvents.get(rows);
+  if (!parsed) {
+    parsed = parseRows<FunnelEvent>('funnelEvents', FUNNEL_EVENT_SCHEMA, getFieldMaps().funnelEvents, rows);
+    parsedFunnelEvents.set(rows, parsed);
+  }
+  return parsed;
+}
+
+// Throws when a single record read or written doesn't match the schema
+export function toPerson(row: Record<string, unknown>): Person {
+  return expectOne(parseRows<Person>('people', PERSON_SCHEMA, getFieldMaps().people, [row]), 'Person');
+}
+
+export function toFunnelEvent(row: Record<string, unknown>): FunnelEvent {
+  return expectOne(parseRows<FunnelEvent>('funnelEvents', FUNNEL_EVENT_SCHEMA, getFieldMaps().funnelEvents, [row]), 'Funnel event');
+}
+
+function expectOne<T extends { id: string }>(parsed: ParsedRecords<T>, label: string): T {
+  const [record] = parsed.records;
+  if (!record) {
+    const id = parsed.issues[0]?.recordId;
+    throw new Error(`${label} ${id} does not match the schema: ${parsed.issues.map(i => `${i.field} ${i.problem}`).join('; ')}`);
+  }
+  return record;
+}
+
+// Rename internal field names to Airtable columns for a write
+export function toColumns<V>(table: RecordTable, fields: Record<string, V>): Record<string, V> {
+  const columns: Record<string, string> = getFieldMaps()[table];
+  return Object.fromEntries(
+    Object.entries(fields).map(([field, value]) => [columns[field] ?? field, value])
+  );
+}
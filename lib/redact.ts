@@ -0,0 +1,42 @@
+import { hasRole, type SessionUser } from './auth';
+import type { FunnelEvent, Person } from './records';
+import type { SlaAlert } from './sla';
+
+// Viewers see the pipeline, not the people in it. Only these fields
+// survive redaction; fields added to the model later are dropped until
+// they are listed here.
+const VIEWER_PERSON_FIELDS = ['id', 'Status', 'Close Class', 'Role', 'Source/Channel', 'Created'] as const;
+const VIEWER_EVENT_FIELDS = ['id', 'From Status', 'To Status', 'Changed At', 'Lead'] as const;
+
+export function canSeePii(user: SessionUser | null): boolean {
+  return hasRole(user, 'recruiter');
+}
+
+function pick<T extends object, K extends keyof T>(record: T, fields: readonly K[]): Pick<T, K> {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => (fields as readonly PropertyKey[]).includes(field))) as Pick<T, K>;
+}
+
+// Stable placeholder so people can still be told apart in lists
+export function redactedName(id: string): string {
+  return `Applicant ${id.slice(-4)}`;
+}
+
+export function redactPerson(person: Person): Person {
+  return { ...pick(person, VIEWER_PERSON_FIELDS), Name: redactedName(person.id) };
+}
+
+export function redactFunnelEvent(event: FunnelEvent): FunnelEvent {
+  return pick(event, VIEWER_EVENT_FIELDS);
+}
+
+export function redactAlert(alert: SlaAlert): SlaAlert {
+  return { ...alert, name: redactedName(alert.personId), email: undefined };
+}
+
+export function peopleFor(user: SessionUser | null, people: Person[]): Person[] {
+  return canSeePii(user) ? people : people.map(redactPerson);
+}
+
+export function eventsFor(user: SessionUser | null, events: FunnelEvent[]): FunnelEvent[] {
+  return canSeePii(user) ? events : events.map(redactFunnelEvent);
+}
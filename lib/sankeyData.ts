@@ -1,29 +1,23 @@
-export interface Person {
-  id: string;
-  Name: string;
-  Status: string;
-  'Close Class'?: string;
-  [key: string]: string | number | boolean | undefined | string[];
-}
-
-export interface FunnelEvent {
-  id: string;
-  'From Status': string;
-  'To Status': string;
-  'Changed At': string;
-  Lead?: string[];
-  [key: string]: string | number | boolean | undefined | string[];
-}
+import { parseCloseClass } from './closeClass';
+import { applyPipelineFilter, type PipelineFilter } from './filters';
+import { getStatusDefinition, isBackTransition, SANKEY_NODES, sankeyPathFor, statusRank } from './funnelConfig';
+import type { FunnelEvent, Person } from './records';
 
 export interface SankeyNode {
   name: string;
   category: 'active' | 'closed' | 'paused';
+  depth?: number;      // Column hint for the chart
+  entering?: number;   // People whose path starts at this node
+  remaining?: number;  // People whose path currently ends at this node
+  personIds?: string[]; // Everyone who passed through or sits at this node
 }
 
 export interface SankeyLink {
   source: number | string;
   target: number | string;
   value: number;
+  back?: boolean;      // Flows backwards in the funnel (e.g. Paused → Call Scheduled)
+  personIds?: string[]; // People who made this move
 }
 
 export interface SankeyData {
@@ -31,7 +25,33 @@ export interface SankeyData {
   links: SankeyLink[];
 }
 
-export function transformEventsToSankey(_events: FunnelEvent[], people?: Person[]): SankeyData {
+// "snapshot" derives flows from where people are right now;
+// "journey" replays the transitions people actually made
+export type SankeyMode = 'snapshot' | 'journey';
+
+export interface FlowImbalance {
+  node: string;
+  inflow: number;
+  outflow: number;
+}
+
+export function transformEventsToSankey(
+  events: FunnelEvent[],
+  people?: Person[],
+  mode: SankeyMode = 'snapshot',
+  filter?: PipelineFilter
+): SankeyData {
+  if (filter) {
+    ({ people, events } = applyPipelineFilter(people || [], events, filter));
+  }
+
+  if (mode === 'journey') {
+    if (events.length === 0) {
+      throw new Error('No funnel events available from Airtable');
+    }
+    return transformJourneyToSankey(events, people);
+  }
+
   // Use live Airtable data only - no fallback
   if (!people || people.length === 0) {
     throw new Error('No data available from Airtable');
@@ -40,105 +60,158 @@ export function transformEventsToSankey(_events: FunnelEvent[], people?: Person[
   return transformLiveDataToSankey(people);
 }
 
-// Transform live Airtable data into Sankey format
-function transformLiveDataToSankey(people: Person[]): SankeyData {
-  // Count people currently in each status
-  const statusCounts: Record<string, number> = {};
-  people.forEach(person => {
-    const status = person.Status;
-    if (status) {
-      statusCounts[status] = (statusCounts[status] || 0) + 1;
-    }
+// Check that inflow + entering equals outflow + remaining at every node.
+// Nodes without the entering/remaining annotations are treated as pure
+// sources (no inflow) or sinks (no outflow).
+export function validateSankeyFlow(data: SankeyData): FlowImbalance[] {
+  const inflow: Record<string, number> = {};
+  const outflow: Record<string, number> = {};
+  data.links.forEach(link => {
+    const source = String(link.source);
+    const target = String(link.target);
+    outflow[source] = (outflow[source] || 0) + link.value;
+    inflow[target] = (inflow[target] || 0) + link.value;
   });
 
-  // Map Airtable statuses to our Sankey nodes - simplified with descriptive labels
-  const nodes: SankeyNode[] = [
-    { name: 'Applications', category: 'active' },
-    { name: 'Unassessed', category: 'paused' },
-    { name: 'Closed/Rejected', category: 'closed' },
-    { name: 'Qualified', category: 'active' },
-    { name: 'Waiting on Reply', category: 'paused' },
-    { name: 'Call Upcoming', category: 'active' },
-    { name: 'Call Completed', category: 'active' },
-    { name: 'Onboarded', category: 'active' },
-    { name: 'Paused', category: 'paused' },
-  ];
-
-  // Get current counts for each status
-  const unassessedCount = statusCounts['New'] || 0;
-  const leadCount = statusCounts['Lead'] || 0;
-  const schedulingCount = statusCounts['Scheduling Email Sent'] || 0;
-  const callScheduledCount = statusCounts['Call Scheduled'] || 0;
-  const callCompletedCount = statusCounts['Call Completed'] || 0;
-  const onboardedCount = statusCounts['Onboarded'] || 0;
-  const activeCount = statusCounts['Active'] || 0;
-  const pausedCount = statusCounts['Paused'] || 0;
-  const closedCount = statusCounts['Closed'] || 0;
-
-
-  // Count people who dropped off AFTER qualifying (using Close Class)
-  const closedPeople = people.filter(p => p.Status === 'Closed');
-  let closedAfterCall = 0;
-  let closedAfterOnboarding = 0;
-  
-  closedPeople.forEach(person => {
-    const closeClass = person['Close Class'] || '';
-    // Match variations: "Disqualified — After Call", "Withdrew — After Call"
-    if (closeClass.toLowerCase().includes('after call')) {
-      closedAfterCall++;
-    } else if (closeClass.toLowerCase().includes('after onboard')) {
-      closedAfterOnboarding++;
+  const imbalances: FlowImbalance[] = [];
+  data.nodes.forEach(node => {
+    const nodeIn = inflow[node.name] || 0;
+    const nodeOut = outflow[node.name] || 0;
+    const annotated = node.entering !== undefined || node.remaining !== undefined;
+    if (!annotated && (nodeIn === 0 || nodeOut === 0)) return;
+
+    if (nodeIn + (node.entering || 0) !== nodeOut + (node.remaining || 0)) {
+      imbalances.push({ node: node.name, inflow: nodeIn, outflow: nodeOut });
     }
   });
+  return imbalances;
+}
 
-  // Calculate the initial closed count (rejected before qualifying)
-  const closedInitially = closedCount - closedAfterCall - closedAfterOnboarding;
+// Replay each Lead's funnel events to build links from the paths people
+// actually followed. Links the funnel config marks as going back up the
+// funnel are flagged as `back`.
+function transformJourneyToSankey(events: FunnelEvent[], people?: Person[]): SankeyData {
+  const rank = statusRank;
+
+  const eventsByLead = new Map<string, FunnelEvent[]>();
+  events.forEach(event => {
+    const leadId = event.Lead?.[0];
+    if (!leadId || !event['From Status'] || !event['To Status']) return;
+    const list = eventsByLead.get(leadId) || [];
+    list.push(event);
+    eventsByLead.set(leadId, list);
+  });
 
-  // Total qualified = everyone who entered the pipeline after initial screening
-  // This includes: Lead + Scheduling + Call Scheduled + Call Completed + Onboarded + Active + Paused + those who dropped after qualifying
-  const totalQualified = leadCount + schedulingCount + callScheduledCount + callCompletedCount + 
-                         onboardedCount + activeCount + pausedCount + closedAfterCall + closedAfterOnboarding;
-  
-  // SIMPLIFIED FLOW LOGIC:
-  // Qualified splits into current states that explain WHERE people are:
-  // - "Waiting on Reply" = Scheduling Email Sent status (awaiting response)
-  // - "Call Upcoming" = Call Scheduled status (on the calendar)
-  // - Flow through to Call Completed (those who had their calls)
-  
-  // People waiting on reply to scheduling email
-  const waitingOnReply = schedulingCount;
-  
-  // People with upcoming calls on calendar
-  const callUpcoming = callScheduledCount;
-  
-  // People who completed calls (and continue in pipeline)
-  const completedCalls = callCompletedCount + onboardedCount + activeCount + pausedCount + closedAfterCall + closedAfterOnboarding;
-  
-  // From Call Completed: people split to Onboarded, Paused, or Closed
-  // Important: People who closed after onboarding exit at Call Completed stage for clearer visualization
-  const flowToOnboarded = onboardedCount + activeCount; // Only current onboarded, not those who later closed
-  const flowToPaused = pausedCount;
-  const flowToClosedFromCall = closedAfterCall + closedAfterOnboarding; // Include both call and post-onboarding closures
-  
-  const links: SankeyLink[] = [
-    // Initial split from Applications
-    { source: 'Applications', target: 'Unassessed', value: unassessedCount },
-    { source: 'Applications', target: 'Qualified', value: totalQualified },
-    { source: 'Applications', target: 'Closed/Rejected', value: closedInitially },
-    
-    // Qualified splits into current states
-    { source: 'Qualified', target: 'Waiting on Reply', value: waitingOnReply },
-    { source: 'Qualified', target: 'Call Upcoming', value: callUpcoming },
-    { source: 'Qualified', target: 'Call Completed', value: completedCalls },
-    
-    // Exits from Call Completed (all closures happen here for clarity)
-    { source: 'Call Completed', target: 'Onboarded', value: flowToOnboarded },
-    { source: 'Call Completed', target: 'Paused', value: flowToPaused },
-    { source: 'Call Completed', target: 'Closed/Rejected', value: flowToClosedFromCall },
-  ];
-
-  return { nodes, links: links.filter(l => l.value > 0) };
+  const entering: Record<string, string[]> = {};
+  const remaining: Record<string, string[]> = {};
+  const linkCounts = new Map<string, SankeyLink>();
+  const push = (byNode: Record<string, string[]>, name: string, id: string) => {
+    (byNode[name] = byNode[name] || []).push(id);
+  };
+
+  eventsByLead.forEach((leadEvents, leadId) => {
+    const sorted = [...leadEvents].sort(
+      (a, b) => new Date(a['Changed At']).getTime() - new Date(b['Changed At']).getTime()
+    );
+    const transitions = sorted.filter(e => e['From Status'] !== e['To Status']);
+    if (transitions.length === 0) return;
+
+    const start = transitions[0]['From Status'];
+    const end = transitions[transitions.length - 1]['To Status'];
+    push(entering, start, leadId);
+    push(remaining, end, leadId);
+
+    transitions.forEach(event => {
+      const source = event['From Status'];
+      const target = event['To Status'];
+      const key = `${source}→${target}`;
+      const link = linkCounts.get(key) || { source, target, value: 0, back: isBackTransition(source, target), personIds: [] };
+      link.value++;
+      if (!link.personIds?.includes(leadId)) link.personIds?.push(leadId);
+      linkCounts.set(key, link);
+    });
+  });
+
+  // People without any recorded transitions still sit somewhere in the funnel
+  people?.forEach(person => {
+    if (!person.Status || eventsByLead.has(person.id)) return;
+    push(entering, person.Status, person.id);
+    push(remaining, person.Status, person.id);
+  });
+
+  const names = new Set<string>([...Object.keys(entering), ...Object.keys(remaining)]);
+  linkCounts.forEach(link => {
+    names.add(String(link.source));
+    names.add(String(link.target));
+  });
+
+  const nodes: SankeyNode[] = Array.from(names)
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(name => ({
+      name,
+      category: getStatusDefinition(name)?.category ?? 'paused',
+      depth: rank(name),
+      entering: entering[name]?.length || 0,
+      remaining: remaining[name]?.length || 0,
+    }));
+
+  const links = Array.from(linkCounts.values());
+  return { nodes: withNodePeople(nodes, links, [entering, remaining]), links };
 }
 
+// Union of the people on a node's links plus any listed for it in `extra`
+function withNodePeople(nodes: SankeyNode[], links: SankeyLink[], extra: Record<string, string[]>[] = []): SankeyNode[] {
+  const byNode = new Map<string, Set<string>>(nodes.map(node => [node.name, new Set<string>()]));
+  const add = (name: string, ids: string[] = []) => ids.forEach(id => byNode.get(name)?.add(id));
+  links.forEach(link => {
+    add(String(link.source), link.personIds);
+    add(String(link.target), link.personIds);
+  });
+  extra.forEach(lists => Object.entries(lists).forEach(([name, ids]) => add(name, ids)));
+  return nodes.map(node => ({ ...node, personIds: Array.from(byNode.get(node.name) ?? []) }));
+}
 
+// Transform live Airtable data into Sankey format. Each person walks the
+// node path the funnel config gives for their current status (and, when
+// closed, the stage of their Close Class); flows are the consecutive steps
+// of those paths.
+function transformLiveDataToSankey(people: Person[]): SankeyData {
+  const entering: Record<string, string[]> = {};
+  const remaining: Record<string, string[]> = {};
+  const flows = new Map<string, SankeyLink>();
+  const push = (byNode: Record<string, string[]>, name: string, id: string) => {
+    (byNode[name] = byNode[name] || []).push(id);
+  };
 
+  people.forEach(person => {
+    const closeClass = parseCloseClass(person['Close Class']);
+    const path = person.Status ? sankeyPathFor(person.Status, closeClass.recognized ? closeClass.stage : null) : undefined;
+    if (!path || path.length === 0) return;
+
+    push(entering, path[0], person.id);
+    push(remaining, path[path.length - 1], person.id);
+    for (let i = 1; i < path.length; i++) {
+      const key = `${path[i - 1]}→${path[i]}`;
+      const link = flows.get(key) || { source: path[i - 1], target: path[i], value: 0, personIds: [] };
+      link.value++;
+      link.personIds?.push(person.id);
+      flows.set(key, link);
+    }
+  });
+
+  // Annotating every node lets validateSankeyFlow check conservation throughout
+  const nodes: SankeyNode[] = SANKEY_NODES.map(node => ({
+    name: node.name,
+    category: node.category,
+    depth: node.depth,
+    entering: entering[node.name]?.length || 0,
+    remaining: remaining[node.name]?.length || 0,
+  }));
+
+  const order = new Map(SANKEY_NODES.map((node, i) => [node.name, i]));
+  const position = (name: number | string) => order.get(String(name)) ?? SANKEY_NODES.length;
+  const links = Array.from(flows.values())
+    .sort((a, b) => position(a.source) - position(b.source) || position(a.target) - position(b.target));
+
+  return { nodes: withNodePeople(nodes, links, [entering, remaining]), links };
+}
@@ -0,0 +1,261 @@
+import { sankey, sankeyLinkHorizontal, sankeyLeft } from 'd3-sankey';
+import { getNodeTone, getSankeyNode, LEGEND, SANKEY_RATES, TONES } from './funnelConfig';
+import type { SankeyData, SankeyLink } from './sankeyData';
+
+// Pure layout of the Sankey chart, shared by the dashboard (drawn with D3)
+// and the headless /api/sankey.svg route (serialized to a string).
+
+export const SANKEY_FONT = 'Georgia, serif';
+
+export const SANKEY_LEGEND = LEGEND;
+
+export const SANKEY_MARGIN = { top: 40, right: 220, bottom: 80, left: 100 };
+
+export interface ScenePath {
+  d: string;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+  dashed?: boolean;
+  link: SankeyLink;     // Node names resolved
+  tooltip: string;
+}
+
+export interface SceneRect {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string;
+  value: number;
+  personIds: string[];
+  tooltip: string;
+}
+
+export interface SceneText {
+  className: string;
+  x: number;
+  y: number;
+  dy?: string;
+  anchor: 'start' | 'middle' | 'end';
+  size: number;
+  weight?: string;
+  italic?: boolean;
+  tabular?: boolean;
+  fill: string;
+  text: string;
+}
+
+// Coordinates are inside the margins; translate by `margin` to draw
+export interface SankeyScene {
+  width: number;
+  height: number;
+  margin: typeof SANKEY_MARGIN;
+  links: ScenePath[];
+  nodes: SceneRect[];
+  texts: SceneText[];
+}
+
+export function getNodeColor(nodeName: string): string {
+  return TONES[getNodeTone(nodeName)].color;
+}
+
+function getLinkColor(targetName: string): string {
+  return TONES[getNodeTone(targetName)].linkColor;
+}
+
+export function getLinkOpacity(targetName: string): number {
+  return TONES[getNodeTone(targetName)].linkOpacity;
+}
+
+const isClosedNode = (name: string) => getNodeTone(name) === 'closed';
+
+type LayoutNode = { name: string; category: string; index: number; depth: number; personIds?: string[] };
+type LayoutLink = { source: string | number; target: string | number; value: number; personIds?: string[] };
+
+function people(count: number): string {
+  return `${count} ${count === 1 ? 'person' : 'people'}`;
+}
+
+// e.g. "Qualified → Call Completed: 42 people (58% of Qualified)"
+function linkTooltip(source: string, target: string, value: number, sourceValue: number): string {
+  const share = sourceValue > 0 ? ` (${Math.round((value / sourceValue) * 100)}% of ${source})` : '';
+  return `${source} → ${target}: ${people(value)}${share}`;
+}
+
+export function layoutSankey(data: SankeyData, width: number, height: number): SankeyScene {
+  const margin = SANKEY_MARGIN;
+  const innerWidth = width - margin.left - margin.right;
+  const innerHeight = height - margin.top - margin.bottom;
+  const scene: SankeyScene = { width, height, margin, links: [], nodes: [], texts: [] };
+  if (!data.nodes.length || !data.links.length) return scene;
+
+  const nameOf = (ref: number | string) => (typeof ref === 'number' ? data.nodes[ref]?.name : ref);
+
+  const graph = sankey<LayoutNode, LayoutLink>()
+    .nodeId(d => d.name)
+    .nodeAlign(sankeyLeft)
+    .nodeWidth(3) // Tufte: thin data-bearing line, slightly thicker for clarity
+    .nodePadding(80) // Much more spacing between nodes to prevent visual overlap
+    .extent([[0, 0], [innerWidth, innerHeight]])
+    .iterations(100)({ // More iterations for better layout
+      nodes: data.nodes.map((d, i) => ({
+        ...d,
+        index: i,
+        depth: d.depth ?? getSankeyNode(d.name)?.depth ?? i  // Explicitly set depth/layer
+      })),
+      // Back-edges would make the graph cyclic; they are drawn separately below
+      links: data.links.filter(d => !d.back).map(d => ({
+        source: d.source,
+        target: d.target,
+        value: d.value,
+        personIds: d.personIds
+      }))
+    });
+
+  const linkPath = sankeyLinkHorizontal<LayoutNode, LayoutLink>();
+  const isLeft = (x: number) => x < innerWidth / 2;
+
+  graph.links.forEach(link => {
+    const source = link.source as LayoutNode;
+    const target = link.target as LayoutNode;
+    scene.links.push({
+      d: linkPath(link) ?? '',
+      stroke: getLinkColor(target.name),
+      strokeWidth: Math.max(1.5, link.width || 0), // Minimum 1.5px for visibility
+      opacity: getLinkOpacity(target.name),
+      link: { source: source.name, target: target.name, value: link.value, personIds: link.personIds },
+      tooltip: linkTooltip(source.name, target.name, link.value, (source as { value?: number }).value || 0),
+    });
+  });
+
+  graph.nodes.forEach(node => {
+    const x0 = node.x0 || 0;
+    const x1 = node.x1 || 0;
+    const y0 = node.y0 || 0;
+    const y1 = node.y1 || 0;
+    scene.nodes.push({
+      name: node.name,
+      x: x0,
+      y: y0,
+      width: x1 - x0,
+      height: y1 - y0,
+      fill: getNodeColor(node.name),
+      value: node.value || 0,
+      personIds: node.personIds ?? [],
+      tooltip: `${node.name}: ${people(node.value || 0)}`,
+    });
+
+    // Tufte-style labels: Direct labeling integrated with the visualization
+    // Left-aligned for left-side nodes, right-aligned for right-side nodes
+    const labelX = isLeft(x0) ? x1 + 8 : x0 - 8;
+    const anchor = isLeft(x0) ? 'start' : 'end';
+    const emphasis = getSankeyNode(node.name)?.emphasis;
+    scene.texts.push({
+      className: 'node-label',
+      x: labelX,
+      y: (y0 + y1) / 2,
+      dy: '0.35em',
+      anchor,
+      // Hierarchy: larger for key nodes, emphasis on outcomes
+      size: emphasis ? 15 : 13,
+      weight: emphasis === 'outcome' ? '600' : emphasis === 'source' ? '500' : '400',
+      fill: '#111',
+      text: node.name,
+    });
+    // Value annotations - small, subtle, integrated
+    scene.texts.push({
+      className: 'node-value',
+      x: labelX,
+      y: (y0 + y1) / 2 + 16,
+      anchor,
+      size: 11,
+      tabular: true,
+      fill: '#666',
+      text: `n=${node.value || 0}`,
+    });
+  });
+
+  // Flow annotations - only for significant transitions (value ≥ 15)
+  graph.links
+    .filter(link => (link.value || 0) >= 15 && !isClosedNode((link.target as LayoutNode).name))
+    .forEach(link => {
+      const source = link.source as LayoutNode & { x1?: number };
+      const target = link.target as LayoutNode & { x0?: number };
+      scene.texts.push({
+        className: 'flow-value',
+        x: ((source.x1 || 0) + (target.x0 || 0)) / 2,
+        y: ((link.y0 || 0) + (link.y1 || 0)) / 2,
+        dy: '-4px',
+        anchor: 'middle',
+        size: 10,
+        italic: true,
+        tabular: true,
+        fill: '#888',
+        text: String(link.value || 0),
+      });
+    });
+
+  // Back-edges (e.g. Paused → Call Scheduled): dashed arcs under the chart,
+  // using the same value-to-width scale as the laid-out links
+  const scaleLink = graph.links.find(d => (d.value || 0) > 0);
+  const ky = scaleLink ? (scaleLink.width || 0) / (scaleLink.value || 1) : 0;
+  const nodeByName = new Map(graph.nodes.map(n => [n.name, n]));
+
+  data.links.filter(d => d.back).forEach(link => {
+    const source = nodeByName.get(nameOf(link.source));
+    const target = nodeByName.get(nameOf(link.target));
+    if (!source || !target || ky === 0) return;
+    const sx = ((source.x0 || 0) + (source.x1 || 0)) / 2;
+    const tx = ((target.x0 || 0) + (target.x1 || 0)) / 2;
+    const sy = source.y1 || 0;
+    const ty = target.y1 || 0;
+    const dip = Math.max(sy, ty) + 40;
+    scene.links.push({
+      d: `M${sx},${sy} C${sx},${dip} ${tx},${dip} ${tx},${ty}`,
+      stroke: '#5a7a8a',
+      strokeWidth: Math.max(1.5, link.value * ky),
+      opacity: 0.35,
+      dashed: true,
+      link: { ...link, source: source.name, target: target.name },
+      tooltip: linkTooltip(source.name, target.name, link.value, source.value || 0),
+    });
+    scene.texts.push({
+      className: 'back-value',
+      x: (sx + tx) / 2,
+      y: dip - 6,
+      anchor: 'middle',
+      size: 10,
+      italic: true,
+      fill: '#888',
+      text: `${source.name} → ${target.name}: ${link.value}`,
+    });
+  });
+
+  // Tufte: Marginal annotations for key insights, e.g. the qualification rate
+  // below Qualified and the onboarding rate beside Onboarded
+  SANKEY_RATES.forEach(rate => {
+    const from = nodeByName.get(rate.from);
+    const to = nodeByName.get(rate.to);
+    if (!from?.value || !to?.value) return;
+    const text = `${Math.round((to.value / from.value) * 100)}% ${rate.text}`;
+    if (rate.placement === 'below') {
+      scene.texts.push({ className: 'annotation', x: (to.x1 || 0) + 8, y: (to.y1 || 0) + 18, anchor: 'start', size: 11, italic: true, fill: '#888', text });
+    } else {
+      scene.texts.push({
+        className: 'annotation',
+        x: (to.x1 || 0) + 8,
+        y: ((to.y0 || 0) + (to.y1 || 0)) / 2 + 30,
+        anchor: 'start',
+        size: 11,
+        italic: true,
+        weight: '500',
+        fill: getNodeColor(to.name),
+        text,
+      });
+    }
+  });
+
+  return scene;
+}
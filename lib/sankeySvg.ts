@@ -0,0 +1,88 @@
+import { layoutSankey, SANKEY_FONT, SANKEY_LEGEND, type SankeyScene } from './sankeyLayout';
+import type { SankeyData } from './sankeyData';
+
+// Standalone SVG documents of the Sankey chart for reports and slides.
+// Everything a viewer needs (fonts, background, legend) is inlined so the
+// file renders the same outside the dashboard.
+
+export interface SankeySvgOptions {
+  width: number;
+  height: number;     // Height of the chart itself; title and legend are added
+  title?: string;
+  subtitle?: string;
+}
+
+const TITLE_HEIGHT = 56;
+const LEGEND_HEIGHT = 48;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Markup of the chart body, equivalent to what SankeyChart draws with D3
+export function sceneToSvgMarkup(scene: SankeyScene): string {
+  const links = scene.links.map(link =>
+    `<path d="${link.d}" stroke="${link.stroke}" stroke-width="${round(link.strokeWidth)}" opacity="${link.opacity}"` +
+    `${link.dashed ? ' stroke-dasharray="4 3"' : ''}><title>${escapeXml(link.tooltip)}</title></path>`
+  );
+  const nodes = scene.nodes.map(node =>
+    `<rect x="${round(node.x)}" y="${round(node.y)}" width="${round(node.width)}" height="${round(node.height)}" fill="${node.fill}"><title>${escapeXml(node.tooltip)}</title></rect>`
+  );
+  const texts = scene.texts.map(text =>
+    `<text class="${text.className}" x="${round(text.x)}" y="${round(text.y)}"${text.dy ? ` dy="${text.dy}"` : ''}` +
+    ` text-anchor="${text.anchor}" font-size="${text.size}px"${text.weight ? ` font-weight="${text.weight}"` : ''}` +
+    `${text.italic ? ' font-style="italic"' : ''}${text.tabular ? ' font-variant-numeric="tabular-nums"' : ''}` +
+    ` fill="${text.fill}">${escapeXml(text.text)}</text>`
+  );
+
+  return [
+    `<g transform="translate(${scene.margin.left},${scene.margin.top})">`,
+    `<g fill="none">${links.join('')}</g>`,
+    `<g>${nodes.join('')}</g>`,
+    `<g font-family="${SANKEY_FONT}">${texts.join('')}</g>`,
+    '</g>',
+  ].join('\n');
+}
+
+function legendMarkup(width: number, y: number): string {
+  const itemWidth = 170;
+  const startX = (width - itemWidth * SANKEY_LEGEND.length) / 2;
+  return SANKEY_LEGEND.map((item, i) => {
+    const x = startX + i * itemWidth;
+    return `<rect x="${x}" y="${y}" width="14" height="14" rx="2" fill="${item.color}"/>` +
+      `<text x="${x + 22}" y="${y + 11}" font-size="13px" fill="#4b5563">${escapeXml(item.label)}</text>`;
+  }).join('');
+}
+
+// Wrap chart markup (from the live <svg> or sceneToSvgMarkup) into a
+// self-contained document with title and legend
+export function standaloneSankeySvg(chartMarkup: string, options: SankeySvgOptions): string {
+  const { width, height, title, subtitle } = options;
+  const top = title ? TITLE_HEIGHT : 0;
+  const totalHeight = top + height + LEGEND_HEIGHT;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${totalHeight}" viewBox="0 0 ${width} ${totalHeight}">`,
+    `<style>text { font-family: ${SANKEY_FONT}; }</style>`,
+    `<rect width="100%" height="100%" fill="#fffff8"/>`,
+    title ? `<text x="${width / 2}" y="32" text-anchor="middle" font-size="20px" fill="#1f2937">${escapeXml(title)}</text>` : '',
+    title && subtitle ? `<text x="${width / 2}" y="50" text-anchor="middle" font-size="12px" font-style="italic" fill="#6b7280">${escapeXml(subtitle)}</text>` : '',
+    `<g transform="translate(0,${top})">`,
+    chartMarkup,
+    '</g>',
+    `<g font-family="${SANKEY_FONT}">${legendMarkup(width, top + height + 12)}</g>`,
+    '</svg>',
+  ].filter(Boolean).join('\n');
+}
+
+export function renderSankeySvg(data: SankeyData, options: SankeySvgOptions): string {
+  return standaloneSankeySvg(sceneToSvgMarkup(layoutSankey(data, options.width, options.height)), options);
+}
@@ -0,0 +1,119 @@
+import type { FunnelEvent, Person } from './records';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A person breaches a rule once they have been in `status` for more than `maxDays`
+export interface SlaRule {
+  id: string;
+  status: string;
+  maxDays: number;
+  label: string;
+}
+
+export interface SlaAlert {
+  personId: string;
+  name: string;
+  email?: string;
+  status: string;
+  ruleId: string;
+  rule: string;
+  since: string;         // When the person entered their current status
+  daysInStatus: number;
+  overdueDays: number;
+}
+
+export const DEFAULT_SLA_RULES: SlaRule[] = [
+  { id: 'new-unassessed', status: 'New', maxDays: 3, label: 'New > 3 days unassessed' },
+  { id: 'lead-no-outreach', status: 'Lead', maxDays: 2, label: 'Lead > 2 days without outreach' },
+  { id: 'awaiting-reply', status: 'Scheduling Email Sent', maxDays: 5, label: 'Scheduling Email Sent > 5 days' },
+  { id: 'call-overdue', status: 'Call Scheduled', maxDays: 14, label: 'Call Scheduled > 14 days' },
+  { id: 'decision-pending', status: 'Call Completed', maxDays: 7, label: 'Call Completed > 7 days without decision' },
+  { id: 'paused-check-in', status: 'Paused', maxDays: 30, label: 'Paused > 30 days' },
+];
+
+// SLA_RULES may hold a JSON array of rules replacing the defaults
+export function getSlaRules(): SlaRule[] {
+  const raw = process.env.SLA_RULES;
+  if (!raw) return DEFAULT_SLA_RULES;
+
+  const parsed: unknown = JSON.parse(raw);
+  const valid = Array.isArray(parsed) && parsed.every(rule =>
+    rule && typeof rule.id === 'string' && typeof rule.status === 'string' &&
+    typeof rule.maxDays === 'number' && rule.maxDays >= 0
+  );
+  if (!valid) {
+    throw new Error('SLA_RULES must be a JSON array of { id, status, maxDays, label? }');
+  }
+  return (parsed as SlaRule[]).map(rule => ({
+    ...rule,
+    label: rule.label || `${rule.status} > ${rule.maxDays} days`,
+  }));
+}
+
+// Check everyone against the rule for their current status. Time in status
+// is measured from their latest funnel event, or from Created without one.
+export function evaluateSla(
+  people: Person[],
+  events: FunnelEvent[],
+  rules: SlaRule[],
+  now: Date = new Date()
+): SlaAlert[] {
+  const latestChange = new Map<string, string>();
+  events.forEach(event => {
+    event.Lead?.forEach(id => {
+      const previous = latestChange.get(id);
+      if (!previous || new Date(event['Changed At']) > new Date(previous)) {
+        latestChange.set(id, event['Changed At']);
+      }
+    });
+  });
+
+  const alerts: SlaAlert[] = [];
+  people.forEach(person => {
+    const rule = rules.find(r => r.status === person.Status);
+    if (!rule) return;
+
+    const since = latestChange.get(person.id) ?? person.Created;
+    if (!since || Number.isNaN(new Date(since).getTime())) return;
+
+    const daysInStatus = (now.getTime() - new Date(since).getTime()) / DAY_MS;
+    if (daysInStatus <= rule.maxDays) return;
+
+    alerts.push({
+      personId: person.id,
+      name: person.Name,
+      email: person.Email,
+      status: person.Status,
+      ruleId: rule.id,
+      rule: rule.label,
+      since,
+      daysInStatus,
+      overdueDays: daysInStatus - rule.maxDays,
+    });
+  });
+
+  return alerts.sort((a, b) => b.overdueDays - a.overdueDays);
+}
+
+// Markdown digest of overdue candidates, grouped by rule
+export function buildSlaDigest(alerts: SlaAlert[], now: Date = new Date(), baseUrl?: string): { subject: string; markdown: string } {
+  const date = now.toISOString().slice(0, 10);
+  const subject = alerts.length === 0
+    ? `Pipeline digest ${date}: nobody overdue`
+    : `Pipeline digest ${date}: ${alerts.length} ${alerts.length === 1 ? 'person needs' : 'people need'} attention`;
+
+  const lines = [`# ${subject}`, ''];
+  const byRule = new Map<string, SlaAlert[]>();
+  alerts.forEach(alert => byRule.set(alert.rule, [...(byRule.get(alert.rule) || []), alert]));
+
+  byRule.forEach((ruleAlerts, rule) => {
+    lines.push(`## ${rule} (${ruleAlerts.length})`, '');
+    ruleAlerts.forEach(alert => {
+      const name = baseUrl ? `[${alert.name}](${baseUrl}/people/${alert.personId})` : alert.name;
+      lines.push(`- ${name}: ${Math.floor(alert.daysInStatus)} days in ${alert.status} (${Math.ceil(alert.overdueDays)} overdue)`);
+    });
+    lines.push('');
+  });
+
+  return { subject, markdown: lines.join('\n').trimEnd() + '\n' };
+}
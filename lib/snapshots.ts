@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataSource } from './dataSource';
+import type { Person } from './records';
+import { replayPeople, rewindPeople } from './timeTravel';
+
+// Snapshots of the People table, stored as one JSON file per capture
+export interface Snapshot {
+  takenAt: string;
+  people: Person[];
+}
+
+export interface SnapshotInfo {
+  takenAt: string;
+  count: number;
+}
+
+function getSnapshotDir() {
+  return process.env.SNAPSHOT_DIR || path.join(process.cwd(), 'data', 'snapshots');
+}
+
+function fileNameFor(takenAt: string) {
+  // Colons are not allowed in file names on every platform
+  return `${takenAt.replace(/:/g, '-')}.json`;
+}
+
+export async function recordSnapshot(people?: Person[]): Promise<SnapshotInfo> {
+  const snapshot: Snapshot = {
+    takenAt: new Date().toISOString(),
+    people: people ?? (await getDataSource().listPeople()),
+  };
+
+  const dir = getSnapshotDir();
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, fileNameFor(snapshot.takenAt)), JSON.stringify(snapshot));
+  return { takenAt: snapshot.takenAt, count: snapshot.people.length };
+}
+
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  const snapshots = await readAllSnapshots();
+  return snapshots.map(s => ({ takenAt: s.takenAt, count: s.people.length }));
+}
+
+// Most recent snapshot taken at or before `asOf`
+export async function findSnapshotBefore(asOf: Date): Promise<Snapshot | null> {
+  const snapshots = await readAllSnapshots();
+  const earlier = snapshots.filter(s => new Date(s.takenAt) <= asOf);
+  return earlier[earlier.length - 1] ?? null;
+}
+
+// The People table as it was at `asOf`. Starts from the closest earlier
+// snapshot and replays funnel events forward; people missing from it (or
+// everyone, if there is no snapshot) are rewound from the live state.
+export async function getPeopleAsOf(asOf: Date): Promise<Person[]> {
+  const dataSource = getDataSource();
+  const [livePeople, events] = await Promise.all([dataSource.listPeople(), dataSource.listFunnelEvents()]);
+  const rewound = rewindPeople(livePeople, events, asOf);
+
+  const snapshot = await findSnapshotBefore(asOf);
+  if (!snapshot) return rewound;
+
+  const replayed = replayPeople(snapshot.people, events, new Date(snapshot.takenAt), asOf);
+  const recorded = new Set(replayed.map(person => person.id));
+  return [...replayed, ...rewound.filter(person => !recorded.has(person.id))];
+}
+
+async function readAllSnapshots(): Promise<Snapshot[]> {
+  const dir = getSnapshotDir();
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return []; // No snapshots recorded yet
+  }
+
+  const snapshots = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as Snapshot)
+  );
+  return snapshots.sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+}
@@ -0,0 +1,19 @@
+import { FUNNEL_STATUSES, STATUSES, type Status } from './funnelConfig';
+
+// Allowed Status moves, as defined in the funnel config
+export { STATUSES, type Status };
+
+export const STATUS_TRANSITIONS: Record<string, readonly string[]> = Object.fromEntries(
+  FUNNEL_STATUSES.map(s => [s.status, s.transitions])
+);
+
+export function isStatus(value: unknown): value is Status {
+  return typeof value === 'string' && (STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: string): boolean {
+  if (from === to) return true;
+  // Records with a status outside the machine can be moved anywhere valid
+  if (!isStatus(from)) return isStatus(to);
+  return isStatus(to) && STATUS_TRANSITIONS[from].includes(to);
+}
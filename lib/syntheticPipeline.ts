@@ -0,0 +1,110 @@
+import type { FunnelEvent, Person } from './records';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyntheticPipelineOptions {
+  seed?: number;
+  size?: number;      // Number of applicants
+  days?: number;      // Applications are spread over this many days before `now`
+  now?: Date;
+}
+
+const FIRST_NAMES = ['Ada', 'Grace', 'Linus', 'Ken', 'Barbara', 'Guido', 'Margaret', 'Dennis', 'Radia', 'Bjarne', 'Frances', 'Anders', 'Hedy', 'Yukihiro', 'Sophie', 'Rich'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Torvalds', 'Thompson', 'Liskov', 'van Rossum', 'Hamilton', 'Ritchie', 'Perlman', 'Stroustrup', 'Allen', 'Hejlsberg', 'Lamarr', 'Matsumoto', 'Wilson', 'Hickey'];
+const ROLES = ['Backend Engineer', 'Frontend Engineer', 'Full-stack Engineer', 'ML Engineer', 'Open Source Maintainer'];
+// Includes the spelling variants seen in the real Source/Channel field
+const CHANNELS = ['Twitter/X', 'twitter', 'LinkedIn', 'linkedin ', 'Hacker News', 'HN', 'Referral', 'referred by a friend', 'GitHub outreach', 'Newsletter'];
+
+// Each step: probability of moving on, otherwise how the person leaves
+const STEPS: { to: string; advance: number; delayDays: [number, number]; closeClass: string }[] = [
+  { to: 'Lead', advance: 0.35, delayDays: [1, 5], closeClass: 'Disqualified — Before Call' },
+  { to: 'Scheduling Email Sent', advance: 1, delayDays: [0, 1], closeClass: 'Disqualified — Before Call' },
+  { to: 'Call Scheduled', advance: 0.75, delayDays: [2, 9], closeClass: 'Unresponsive — Before Call' },
+  { to: 'Call Completed', advance: 0.85, delayDays: [3, 10], closeClass: 'Withdrew — Before Call' },
+  { to: 'Onboarded', advance: 0.8, delayDays: [2, 7], closeClass: 'Disqualified — After Call' },
+  { to: 'Active', advance: 0.5, delayDays: [3, 14], closeClass: 'Withdrew — After Onboarding' },
+];
+
+// Deterministic PRNG (mulberry32) so a seed always yields the same pipeline
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generate a realistic-looking pipeline: people walk the funnel with stage
+// conversion rates and delays similar to the real study, and every move is
+// recorded as a funnel event.
+export function generateSyntheticPipeline(options: SyntheticPipelineOptions = {}): { people: Person[]; events: FunnelEvent[] } {
+  const { seed = 1, size = 120, days = 120, now = new Date() } = options;
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const between = ([min, max]: [number, number]) => min + random() * (max - min);
+
+  const people: Person[] = [];
+  const events: FunnelEvent[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const id = `recSynthetic${String(i).padStart(4, '0')}`;
+    const first = pick(FIRST_NAMES);
+    const last = pick(LAST_NAMES);
+    const handle = `${first}${last}`.toLowerCase().replace(/[^a-z]/g, '');
+    const created = new Date(now.getTime() - random() * days * DAY_MS);
+
+    let status = 'New';
+    let closeClass: string | undefined;
+    let at = created;
+
+    const move = (to: string) => {
+      events.push({
+        id: `${id}-ev${events.length}`,
+        'From Status': status,
+        'To Status': to,
+        'Changed At': at.toISOString(),
+        Lead: [id],
+      });
+      status = to;
+    };
+
+    for (const step of STEPS) {
+      const next = new Date(at.getTime() + between(step.delayDays) * DAY_MS);
+      if (next > now) break; // Still waiting at the current stage
+
+      at = next;
+      if (step.to === 'Onboarded' && random() < 0.1) {
+        move('Paused'); // Occasionally pause before onboarding, then resume
+        at = new Date(at.getTime() + between([5, 20]) * DAY_MS);
+        if (at > now) break;
+        move('Call Scheduled');
+        break;
+      }
+      if (random() < step.advance) {
+        move(step.to);
+      } else {
+        closeClass = step.closeClass;
+        move('Closed');
+        break;
+      }
+    }
+
+    people.push({
+      id,
+      Name: `${first} ${last}`,
+      Email: `${handle}${i}@example.com`,
+      Status: status,
+      'Close Class': closeClass,
+      Role: pick(ROLES),
+      'Source/Channel': pick(CHANNELS),
+      'GitHub Link': `https://github.com/${handle}${i}`,
+      Created: created.toISOString(),
+    });
+  }
+
+  events.sort((a, b) => a['Changed At'].localeCompare(b['Changed At']));
+  return { people, events };
+}
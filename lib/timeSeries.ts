@@ -0,0 +1,145 @@
+import { STATUS_ROLES } from './funnelConfig';
+import type { FunnelEvent, Person } from './records';
+
+// Weekly or monthly counts of applications and funnel milestones, for
+// sparklines and /trends. Weeks start on Monday and months on the 1st, in UTC.
+
+export type TimeSeriesInterval = 'week' | 'month';
+
+export const TIME_SERIES_INTERVALS: readonly TimeSeriesInterval[] = ['week', 'month'];
+export const DEFAULT_TIME_SERIES_PERIODS = 12;
+const MAX_TIME_SERIES_PERIODS = 104;
+
+export interface TimeSeriesQuery {
+  interval: TimeSeriesInterval;
+  periods: number;          // Buckets returned, ending with the current one
+}
+
+export type TrendMetricId = 'applications' | 'qualifications' | 'callsCompleted' | 'onboardings' | 'closures';
+
+// Applications come from Person.Created; the rest count each person the
+// first time a funnel event moved them into `status`
+export const TREND_METRICS: readonly { id: TrendMetricId; label: string; status?: string }[] = [
+  { id: 'applications', label: 'Applications' },
+  { id: 'qualifications', label: 'Qualified', status: STATUS_ROLES.qualified },
+  { id: 'callsCompleted', label: 'Calls completed', status: 'Call Completed' },
+  { id: 'onboardings', label: 'Onboarded', status: STATUS_ROLES.onboarded },
+  { id: 'closures', label: 'Closed', status: STATUS_ROLES.closed },
+];
+
+export interface TimeSeries {
+  id: TrendMetricId;
+  label: string;
+  values: number[];         // One per period, oldest first
+  total: number;
+  latest: number;           // Last complete period
+  previous: number;         // The period before that
+  change: number | null;    // latest vs previous as a fraction, null when previous is 0
+}
+
+export interface TimeSeriesReport {
+  generatedAt: string;
+  interval: TimeSeriesInterval;
+  periods: string[];        // Start of each period (YYYY-MM-DD); the last is still in progress
+  series: TimeSeries[];
+}
+
+export function parseTimeSeriesQuery(params: URLSearchParams): { query: TimeSeriesQuery; errors: string[] } {
+  const query: TimeSeriesQuery = { interval: 'week', periods: DEFAULT_TIME_SERIES_PERIODS };
+  const errors: string[] = [];
+
+  const interval = params.get('interval');
+  if (interval) {
+    if ((TIME_SERIES_INTERVALS as readonly string[]).includes(interval)) query.interval = interval as TimeSeriesInterval;
+    else errors.push(`interval must be one of ${TIME_SERIES_INTERVALS.join(', ')}`);
+  }
+
+  const periods = params.get('periods');
+  if (periods) {
+    const parsed = Number(periods);
+    if (Number.isInteger(parsed) && parsed >= 2 && parsed <= MAX_TIME_SERIES_PERIODS) query.periods = parsed;
+    else errors.push(`periods must be an integer from 2 to ${MAX_TIME_SERIES_PERIODS}`);
+  }
+
+  return { query, errors };
+}
+
+export function periodStart(date: Date, interval: TimeSeriesInterval): Date {
+  if (interval === 'month') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday));
+}
+
+function addPeriods(start: Date, count: number, interval: TimeSeriesInterval): Date {
+  return interval === 'month'
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + count, 1))
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + count * 7));
+}
+
+function validDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// When each person first entered `status`; events without a Lead count on their own
+function firstEntries(events: FunnelEvent[], status: string): Date[] {
+  const first = new Map<string, Date>();
+  events.forEach(event => {
+    const at = validDate(event['Changed At']);
+    if (event['To Status'] !== status || !at) return;
+    const key = event.Lead?.[0] ?? event.id;
+    const seen = first.get(key);
+    if (!seen || at < seen) first.set(key, at);
+  });
+  return Array.from(first.values());
+}
+
+export function computeTimeSeries(
+  people: Person[],
+  events: FunnelEvent[],
+  { interval, periods }: TimeSeriesQuery,
+  now: Date = new Date()
+): TimeSeriesReport {
+  const current = periodStart(now, interval);
+  const starts = Array.from({ length: periods }, (_, i) => addPeriods(current, i - periods + 1, interval));
+  const end = addPeriods(current, 1, interval);
+
+  const bucket = (dates: Date[]) => {
+    const values = starts.map(() => 0);
+    dates.forEach(date => {
+      if (date < starts[0] || date >= end) return;
+      const start = periodStart(date, interval).getTime();
+      const index = starts.findIndex(s => s.getTime() === start);
+      if (index !== -1) values[index]++;
+    });
+    return values;
+  };
+
+  const series = TREND_METRICS.map(metric => {
+    const dates = metric.status
+      ? firstEntries(events, metric.status)
+      : people.map(person => validDate(person.Created)).filter((date): date is Date => date !== null);
+    const values = bucket(dates);
+    const latest = values[values.length - 2];
+    const previous = values[values.length - 3] ?? 0;
+    return {
+      id: metric.id,
+      label: metric.label,
+      values,
+      total: values.reduce((sum, value) => sum + value, 0),
+      latest,
+      previous,
+      change: previous > 0 ? (latest - previous) / previous : null,
+    };
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    interval,
+    periods: starts.map(start => start.toISOString().slice(0, 10)),
+    series,
+  };
+}
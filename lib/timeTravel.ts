@@ -0,0 +1,58 @@
+import { STATUS_ROLES } from './funnelConfig';
+import type { FunnelEvent, Person } from './records';
+
+// Parse an `asOf` query value. Bare dates mean "end of that day" (UTC).
+export function parseAsOf(value: string | null): Date | null {
+  if (!value) return null;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T23:59:59.999Z`)
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function eventsUpTo<E extends FunnelEvent>(events: E[], asOf: Date): E[] {
+  return events.filter(event => new Date(event['Changed At']) <= asOf);
+}
+
+// Rebuild the pipeline at `asOf` from the current state by undoing every
+// transition that happened afterwards, newest first. People created after
+// `asOf` are dropped. Close Class is only known for the current state, so it
+// is cleared for anyone who was not yet closed.
+export function rewindPeople<P extends Person>(people: P[], events: FunnelEvent[], asOf: Date): P[] {
+  const byId = new Map(
+    people
+      .filter(person => typeof person.Created !== 'string' || new Date(person.Created) <= asOf)
+      .map(person => [person.id, { ...person }])
+  );
+
+  const later = events
+    .filter(event => new Date(event['Changed At']) > asOf)
+    .sort((a, b) => new Date(b['Changed At']).getTime() - new Date(a['Changed At']).getTime());
+
+  later.forEach(event => {
+    const person = byId.get(event.Lead?.[0] || '');
+    if (!person || !event['From Status']) return;
+    person.Status = event['From Status'];
+    if (person.Status !== STATUS_ROLES.closed) delete person['Close Class'];
+  });
+
+  return Array.from(byId.values());
+}
+
+// Advance a recorded state from `from` to `to` by applying the transitions in between
+export function replayPeople<P extends Person>(people: P[], events: FunnelEvent[], from: Date, to: Date): P[] {
+  const byId = new Map(people.map(person => [person.id, { ...person }]));
+
+  events
+    .filter(event => {
+      const changedAt = new Date(event['Changed At']);
+      return changedAt > from && changedAt <= to;
+    })
+    .sort((a, b) => new Date(a['Changed At']).getTime() - new Date(b['Changed At']).getTime())
+    .forEach(event => {
+      const person = byId.get(event.Lead?.[0] || '');
+      if (person && event['To Status']) person.Status = event['To Status'];
+    });
+
+  return Array.from(byId.values());
+}
@@ -0,0 +1,72 @@
+'use client';
+import { useEffect, useRef } from 'react';
+import type { PipelineDelta } from './pipelineDelta';
+
+export interface PipelineStreamHandlers<P, E> {
+  onSnapshot: (snapshot: { people: P[]; events: E[] }) => void;
+  onDelta: (delta: PipelineDelta<P, E>) => void;
+  poll: () => void;   // Reload everything; used while the stream is down
+}
+
+const POLL_MS = 30 * 1000;
+// After a failure, poll for a while before trying the stream again
+const RETRY_STREAM_MS = 2 * 60 * 1000;
+
+// Live pipeline updates from /api/stream, falling back to polling when
+// the browser or the server can't keep the stream open
+export function usePipelineStream<P, E>(enabled: boolean, handlers: PipelineStreamHandlers<P, E>) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const fallBackToPolling = () => {
+      source?.close();
+      source = null;
+      if (!pollTimer) {
+        handlersRef.current.poll();
+        pollTimer = setInterval(() => handlersRef.current.poll(), POLL_MS);
+      }
+      if (typeof EventSource !== 'undefined' && !retryTimer) {
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          connect();
+        }, RETRY_STREAM_MS);
+      }
+    };
+
+    const connect = () => {
+      if (typeof EventSource === 'undefined') {
+        fallBackToPolling();
+        return;
+      }
+      source = new EventSource('/api/stream');
+      source.addEventListener('snapshot', event => {
+        stopPolling();
+        handlersRef.current.onSnapshot(JSON.parse((event as MessageEvent).data));
+      });
+      source.addEventListener('delta', event => {
+        handlersRef.current.onDelta(JSON.parse((event as MessageEvent).data));
+      });
+      // Covers both server-reported errors and dropped connections
+      source.addEventListener('error', fallBackToPolling);
+    };
+
+    connect();
+    return () => {
+      source?.close();
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,27 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { SessionUser } from './auth';
+
+export interface SessionInfo {
+  authEnabled: boolean;
+  user: SessionUser | null;
+}
+
+// The signed-in user, or null until /api/auth/session has answered
+export function useSession(): SessionInfo | null {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(res => (res.ok ? res.json() : { authEnabled: true, user: null }))
+      .then(setSession)
+      .catch(() => setSession({ authEnabled: true, user: null }));
+  }, []);
+
+  return session;
+}
+
+export async function signOut() {
+  await fetch('/api/auth/logout', { method: 'POST' });
+  window.location.href = '/login';
+}
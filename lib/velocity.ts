@@ -0,0 +1,168 @@
+import type { FunnelEvent, Person } from './records';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineEntry {
+  status: string;
+  enteredAt: Date;
+}
+
+export interface StageDuration {
+  from: string;
+  to: string;
+  count: number;       // People who went from `from` to `to`
+  median: number | null; // Durations in days, null when no one made the move
+  p25: number | null;
+  p75: number | null;
+  p90: number | null;
+}
+
+export interface VelocitySegment extends StageDuration {
+  label: string;
+}
+
+// Segments shown on the dashboard and returned by /api/metrics/velocity
+export const VELOCITY_SEGMENTS = [
+  { label: 'Application → Qualified', from: 'New', to: 'Lead' },
+  { label: 'Qualified → Call', from: 'Lead', to: 'Call Completed' },
+  { label: 'End-to-End', from: 'New', to: 'Onboarded' },
+] as const;
+
+// Rebuild each person's status history from funnel events, keyed by person id.
+// When people are passed in, the first known status is anchored at their
+// Created date so "New → ..." durations can be measured.
+export function buildTimelines(events: FunnelEvent[], people?: Person[]): Map<string, TimelineEntry[]> {
+  const createdById = new Map<string, string>();
+  people?.forEach(person => {
+    if (typeof person.Created === 'string') createdById.set(person.id, person.Created);
+  });
+
+  const eventsByLead = new Map<string, FunnelEvent[]>();
+  events.forEach(event => {
+    const leadId = event.Lead?.[0];
+    if (!leadId || !event['To Status'] || !isValidDate(event['Changed At'])) return;
+    const list = eventsByLead.get(leadId) || [];
+    list.push(event);
+    eventsByLead.set(leadId, list);
+  });
+
+  const timelines = new Map<string, TimelineEntry[]>();
+  eventsByLead.forEach((leadEvents, leadId) => {
+    const sorted = [...leadEvents].sort(
+      (a, b) => new Date(a['Changed At']).getTime() - new Date(b['Changed At']).getTime()
+    );
+
+    const timeline: TimelineEntry[] = [];
+    const created = createdById.get(leadId);
+    const first = sorted[0];
+    if (first['From Status'] && created && isValidDate(created)) {
+      timeline.push({ status: first['From Status'], enteredAt: new Date(created) });
+    }
+
+    sorted.forEach(event => {
+      timeline.push({ status: event['To Status'], enteredAt: new Date(event['Changed At']) });
+    });
+
+    timelines.set(leadId, timeline);
+  });
+
+  return timelines;
+}
+
+// Days between first entering `from` and the first subsequent entry into `to`
+export function durationBetween(timeline: TimelineEntry[], from: string, to: string): number | null {
+  const start = timeline.find(entry => entry.status === from);
+  if (!start) return null;
+  const end = timeline.find(entry => entry.status === to && entry.enteredAt >= start.enteredAt);
+  if (!end) return null;
+  return (end.enteredAt.getTime() - start.enteredAt.getTime()) / DAY_MS;
+}
+
+export function computeStageDuration(
+  timelines: Map<string, TimelineEntry[]>,
+  from: string,
+  to: string
+): StageDuration {
+  const durations: number[] = [];
+  timelines.forEach(timeline => {
+    const days = durationBetween(timeline, from, to);
+    if (days !== null) durations.push(days);
+  });
+  durations.sort((a, b) => a - b);
+
+  return {
+    from,
+    to,
+    count: durations.length,
+    median: percentile(durations, 0.5),
+    p25: percentile(durations, 0.25),
+    p75: percentile(durations, 0.75),
+    p90: percentile(durations, 0.9),
+  };
+}
+
+export function computeVelocity(events: FunnelEvent[], people?: Person[]): VelocitySegment[] {
+  const timelines = buildTimelines(events, people);
+  return VELOCITY_SEGMENTS.map(segment => ({
+    label: segment.label,
+    ...computeStageDuration(timelines, segment.from, segment.to),
+  }));
+}
+
+export interface StageStay {
+  status: string;
+  enteredAt: Date;
+  leftAt: Date | null;   // null while the person is still there
+  days: number;
+}
+
+// Split a timeline into consecutive stays; the last one runs until `now`
+export function computeStageStays(timeline: TimelineEntry[], now: Date = new Date()): StageStay[] {
+  return timeline.map((entry, i) => {
+    const leftAt = timeline[i + 1]?.enteredAt ?? null;
+    const end = leftAt ?? now;
+    return {
+      status: entry.status,
+      enteredAt: entry.enteredAt,
+      leftAt,
+      days: (end.getTime() - entry.enteredAt.getTime()) / DAY_MS,
+    };
+  });
+}
+
+// Median days spent in each status, counting only finished stays
+export function computeMedianStay(timelines: Map<string, TimelineEntry[]>): Record<string, number> {
+  const byStatus: Record<string, number[]> = {};
+  timelines.forEach(timeline => {
+    computeStageStays(timeline).forEach(stay => {
+      if (!stay.leftAt) return;
+      (byStatus[stay.status] = byStatus[stay.status] || []).push(stay.days);
+    });
+  });
+
+  const medians: Record<string, number> = {};
+  Object.entries(byStatus).forEach(([status, days]) => {
+    const median = percentile(days.sort((a, b) => a - b), 0.5);
+    if (median !== null) medians[status] = median;
+  });
+  return medians;
+}
+
+// Linear interpolation between closest ranks; expects sorted input
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function formatDays(days: number | null): string {
+  if (days === null) return '—';
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return `${Math.round(days)}d`;
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
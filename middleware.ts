@@ -0,0 +1,63 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  CRON_ACTOR,
+  hasCronSecret,
+  hasRole,
+  isAuthEnabled,
+  requiredRole,
+  ROLE_HEADER,
+  SESSION_COOKIE,
+  USER_HEADER,
+  verifySessionToken,
+} from './lib/auth';
+
+// Every page and API route requires a signed-in user with a role that
+// allows the request (see ACCESS_RULES in lib/auth.ts)
+export async function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.delete(USER_HEADER);
+  headers.delete(ROLE_HEADER);
+
+  if (!isAuthEnabled()) {
+    if (process.env.NODE_ENV === 'production') {
+      return NextResponse.json({ error: 'Authentication is not configured (AUTH_SECRET is not set)' }, { status: 500 });
+    }
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const { pathname } = request.nextUrl;
+  const role = requiredRole(pathname, request.method);
+  if (role === 'public') {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  // Scheduled jobs authenticate with the route's cron secret instead
+  if (await hasCronSecret(pathname, request.method, request.headers.get('authorization'))) {
+    headers.set(USER_HEADER, CRON_ACTOR);
+    headers.set(ROLE_HEADER, role);
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const user = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const isApi = pathname.startsWith('/api/');
+
+  if (!user) {
+    if (isApi) return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(login);
+  }
+
+  if (!hasRole(user, role)) {
+    if (isApi) return NextResponse.json({ error: `Requires the ${role} role` }, { status: 403 });
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  headers.set(USER_HEADER, user.username);
+  headers.set(ROLE_HEADER, user.role);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};